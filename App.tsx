@@ -1,156 +1,519 @@
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { generateThumbnail, getPromptSuggestions, PromptSuggestion } from './services/geminiService';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { critiqueThumbnail, ErrorCategory, GenerationError, generateThumbnails, getPromptIdeas, inpaintImage, MAX_VARIANTS, outpaintImage, refineImage, stylePrompt } from './services/geminiService';
 import Loader from './components/Loader';
+import VariantGrid from './components/VariantGrid';
+import TextLayerPanel from './components/TextLayerPanel';
+import LayerOverlay from './components/LayerOverlay';
+import HistoryPanel from './components/HistoryPanel';
+import ExportPanel from './components/ExportPanel';
+import FitModePanel from './components/FitModePanel';
+import ReferenceSlots from './components/ReferenceSlots';
+import RefineChat from './components/RefineChat';
+import MaskEditor from './components/MaskEditor';
+import BrandKitManager from './components/BrandKitManager';
+import PromptTemplatePicker from './components/PromptTemplatePicker';
+import PromptIdeas from './components/PromptIdeas';
+import AnalysisPanel from './components/AnalysisPanel';
+import UploadPreprocessor from './components/UploadPreprocessor';
+import { composeCanvas, defaultFit, drawCanvas, loadImage, RenderOptions } from './services/canvasRenderer';
+import { createTextLayer } from './services/textLayers';
+import * as historyStore from './services/historyStore';
+import * as versionTree from './services/versionTree';
+import { compositeInpaint, maskToDataUrl } from './services/inpainting';
+import * as brandKits from './services/brandKits';
+import { analyzeThumbnail, describeAnalysis, ThumbnailAnalysis } from './services/thumbnailAnalyzer';
+import { builtInTemplates, deletePromptTemplate, listPromptTemplates, savePromptTemplate } from './services/promptTemplates';
+import { createProjectFile, readProjectFile } from './services/projectFile';
+import { downloadBlob, exportAllPresets, ExportFormat, exportForPreset, exportPresets, ExportResult } from './services/exporter';
+import { AspectRatio, BrandKit, EditorSnapshot, FitSettings, GenerationRecord, InlineReference, OutpaintedImage, Project, PromptIdea, PromptTemplate, ReferenceImage, ReferenceRole, TextLayer, ThumbnailCritique, UploadedImage, Variant, VersionTree } from './types';
 
-type UploadedImage = {
-    data: string; // base64 data URL
-    mimeType: string;
+type GenerationSettings = {
+    prompt: string;
+    negativePrompt: string;
+    styles: string[];
+    aspectRatio: AspectRatio;
+    referenceImages: ReferenceImage[];
+    variantCount: number;
+    brandKit: BrandKit | null;
 };
 
-type AspectRatio = '16:9' | '1:1' | '9:16' | '4:3' | '3:4';
-
-const drawCanvas = (
-    base64Image: string,
-    targetAspectRatio: AspectRatio
-): Promise<string> => {
-    return new Promise((resolve, reject) => {
-        const image = new Image();
-        image.onload = () => {
-            const [targetW, targetH] = targetAspectRatio.split(':').map(Number);
-            const targetRatio = targetW / targetH;
-            const originalW = image.width;
-            const originalH = image.height;
-            const originalRatio = originalW / originalH;
-
-            let canvasW = originalW;
-            let canvasH = originalH;
-
-            if (Math.abs(targetRatio - originalRatio) > 0.01) {
-                 if (targetRatio > originalRatio) {
-                    canvasH = originalH;
-                    canvasW = originalH * targetRatio;
-                } else {
-                    canvasW = originalW;
-                    canvasH = originalW / targetRatio;
-                }
-            }
+const MAX_REFERENCES = 5;
+// New uploads take the first role nobody has claimed yet, in this order.
+const defaultRoleOrder: ReferenceRole[] = ['subject', 'logo', 'background', 'style'];
+const ACTIVE_BRAND_KIT_KEY = 'bhagat.activeBrandKitId';
 
-            const canvas = document.createElement('canvas');
-            canvas.width = Math.round(canvasW);
-            canvas.height = Math.round(canvasH);
-            const ctx = canvas.getContext('2d');
-            if (!ctx) return reject(new Error('Could not get canvas context'));
-
-            // Background for padding
-            ctx.fillStyle = '#000000';
-            ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-            const offsetX = (canvas.width - originalW) / 2;
-            const offsetY = (canvas.height - originalH) / 2;
-            ctx.drawImage(image, Math.round(offsetX), Math.round(offsetY), originalW, originalH);
-            
-            resolve(canvas.toDataURL('image/jpeg'));
-        };
-        image.onerror = () => reject(new Error('Failed to load image for canvas rendering.'));
-        image.crossOrigin = 'anonymous';
-        image.src = base64Image;
-    });
+const errorTitles: Record<ErrorCategory, string> = {
+    safety: 'Blocked by Safety Filters',
+    quota: 'Rate Limit Reached',
+    auth: 'API Key Problem',
+    network: 'Connection Problem',
+    server: 'Service Unavailable',
+    timeout: 'Request Timed Out',
+    cancelled: 'Generation Cancelled',
+    empty: 'No Image Returned',
+    unknown: 'Generation Failed',
 };
 
+const brandKitKey = (kit: BrandKit | null): string | null => kit ? `${kit.id}@${kit.updatedAt}` : null;
+
+const cancellableActions = ['refine', 'inpaint', 'outpaint', 'critique'] as const;
+type CancellableAction = typeof cancellableActions[number];
 
 const App: React.FC = () => {
-    const initialPrompt = "A dramatic and inspirational YouTube thumbnail showing the Indian flag waving proudly on top of the Earth, golden sunlight shining behind it, futuristic skyscrapers and technology in the background, a confident young person pointing forward with determination, bold glowing text overlay: ‘India #1 in the World’, vibrant colors (saffron, white, green, blue), cinematic style, ultra-realistic, high contrast, motivational theme.";
+    const initialPrompt = builtInTemplates[0].template;
     
     const [prompt, setPrompt] = useState<string>(initialPrompt);
     const [negativePrompt, setNegativePrompt] = useState<string>('blurry, deformed, watermark');
-    const [style, setStyle] = useState<string>('Cinematic');
+    const [selectedStyles, setSelectedStyles] = useState<string[]>(['Cinematic']);
+    const [isComparingStyles, setIsComparingStyles] = useState<boolean>(false);
+    const [variantCount, setVariantCount] = useState<number>(1);
     const [aspectRatio, setAspectRatio] = useState<AspectRatio>('16:9');
     
-    const [rawImageUrl, setRawImageUrl] = useState<string | null>(null);
     const [finalImageUrl, setFinalImageUrl] = useState<string | null>(null);
 
+    const [variants, setVariants] = useState<Variant[]>([]);
+    const [selectedVariantId, setSelectedVariantId] = useState<string | null>(null);
+    const [isComparingVariants, setIsComparingVariants] = useState<boolean>(false);
+
+    // Each variant carries its own refinement history; the working image is
+    // whichever version is current in the selected variant's tree.
+    const [versionTrees, setVersionTrees] = useState<Record<string, VersionTree>>({});
+    const [isRefining, setIsRefining] = useState<boolean>(false);
+    const [refineError, setRefineError] = useState<string | null>(null);
+    const [isMasking, setIsMasking] = useState<boolean>(false);
+    const [isInpainting, setIsInpainting] = useState<boolean>(false);
+    const [inpaintError, setInpaintError] = useState<string | null>(null);
+    const activeTree = selectedVariantId ? versionTrees[selectedVariantId] ?? null : null;
+    const rawImageUrl = activeTree ? versionTree.currentVersion(activeTree).imageUrl : null;
+
+    // Headlines are rendered by the canvas, not the model, so they come out crisp.
+    const [textLayers, setTextLayers] = useState<TextLayer[]>(() => [createTextLayer({ text: 'INDIA #1 IN THE WORLD', fill: { type: 'gradient', from: '#ffffff', to: '#f59e0b', angle: 90 } })]);
+    const [selectedLayerId, setSelectedLayerId] = useState<string | null>(null);
+    const [showGuides, setShowGuides] = useState<boolean>(true);
+
+    const [kits, setKits] = useState<BrandKit[]>([]);
+    const [activeKitId, setActiveKitId] = useState<string | null>(() => localStorage.getItem(ACTIVE_BRAND_KIT_KEY));
+    const [isBrandKitOpen, setIsBrandKitOpen] = useState<boolean>(false);
+    const activeKit = kits.find((kit) => kit.id === activeKitId) ?? null;
+
+    const [fit, setFit] = useState<FitSettings>(defaultFit);
+    const [outpainted, setOutpainted] = useState<OutpaintedImage | null>(null);
+    const [isOutpainting, setIsOutpainting] = useState<boolean>(false);
+
     const [isLoading, setIsLoading] = useState<boolean>(false);
+    // Only generation failures go here; they replace the canvas with a "Try Again" panel.
     const [error, setError] = useState<string | null>(null);
-    const [uploadedImage, setUploadedImage] = useState<UploadedImage | null>(null);
-    const fileInputRef = useRef<HTMLInputElement>(null);
+    // Everything else (export, projects, history, brand kits...) is a dismissible banner above the canvas.
+    const [actionError, setActionError] = useState<string | null>(null);
+    // Kept alongside `error` so the failure panel can tailor its advice; only
+    // applies while `error` still shows this generation's message.
+    const [generationError, setGenerationError] = useState<GenerationError | null>(null);
+    const [generationNotice, setGenerationNotice] = useState<string | null>(null);
+    const [retryStatus, setRetryStatus] = useState<string | null>(null);
+    const generationAbortRef = useRef<AbortController | null>(null);
+    // One in-flight request per editing action, so each has its own Cancel.
+    const actionAbortRefs = useRef<Partial<Record<CancellableAction, AbortController>>>({});
+    const [referenceImages, setReferenceImages] = useState<ReferenceImage[]>([]);
+    // Uploads waiting for the preprocessing dialog, first one shown.
+    const [pendingUploads, setPendingUploads] = useState<File[]>([]);
     const [isAppVisible, setIsAppVisible] = useState(false);
     
     const [isSuggesting, setIsSuggesting] = useState<boolean>(false);
+    const [ideas, setIdeas] = useState<PromptIdea[] | null>(null);
+    // The prompt as it was before a suggestion replaced it, so it can be restored.
+    const [promptBeforeIdea, setPromptBeforeIdea] = useState<string | null>(null);
+    const [templates, setTemplates] = useState<PromptTemplate[]>(builtInTemplates);
+
+    const [history, setHistory] = useState<GenerationRecord[]>([]);
+    const [projects, setProjects] = useState<Project[]>([]);
+    const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
+    const [isHistoryOpen, setIsHistoryOpen] = useState<boolean>(false);
+    const projectInputRef = useRef<HTMLInputElement>(null);
+
+    const [isExporting, setIsExporting] = useState<boolean>(false);
+    const [exportResults, setExportResults] = useState<ExportResult[]>([]);
+
+    // Results remember the render they were made for, so edits mark them stale instead of clearing them.
+    const [analysis, setAnalysis] = useState<{ imageUrl: string; result: ThumbnailAnalysis } | null>(null);
+    const [isAnalyzing, setIsAnalyzing] = useState<boolean>(false);
+    const [critique, setCritique] = useState<{ imageUrl: string; result: ThumbnailCritique } | null>(null);
+    const [isCritiquing, setIsCritiquing] = useState<boolean>(false);
+    const [analysisError, setAnalysisError] = useState<string | null>(null);
+
+    const refreshHistory = useCallback(async () => {
+        try {
+            const [records, storedProjects] = await Promise.all([historyStore.listGenerations(), historyStore.listProjects()]);
+            setHistory(records);
+            setProjects(storedProjects);
+        } catch (err) {
+            // History is a convenience; the generator keeps working without it.
+            console.error("Error loading history:", err);
+        }
+    }, []);
+
+    const refreshBrandKits = useCallback(async () => {
+        try {
+            setKits(await brandKits.listBrandKits());
+        } catch (err) {
+            console.error("Error loading brand kits:", err);
+        }
+    }, []);
+
+    const refreshTemplates = useCallback(async () => {
+        try {
+            setTemplates(await listPromptTemplates());
+        } catch (err) {
+            console.error("Error loading prompt templates:", err);
+        }
+    }, []);
 
     useEffect(() => {
         setIsAppVisible(true);
-    }, []);
+        refreshHistory();
+        refreshBrandKits();
+        refreshTemplates();
+    }, [refreshHistory, refreshBrandKits, refreshTemplates]);
 
     useEffect(() => {
-        if (!rawImageUrl) return;
-        drawCanvas(rawImageUrl, aspectRatio)
-            .then(setFinalImageUrl)
-            .catch(err => setError(`Canvas Render Error: ${err.message}`));
-    }, [rawImageUrl, aspectRatio]);
+        if (activeKitId) {
+            localStorage.setItem(ACTIVE_BRAND_KIT_KEY, activeKitId);
+        } else {
+            localStorage.removeItem(ACTIVE_BRAND_KIT_KEY);
+        }
+    }, [activeKitId]);
+
+    // An outpainted image only applies to the image and ratio it was made for; until
+    // one exists, the preview falls back to a blur fill.
+    const hasOutpaint = !!outpainted && outpainted.source === rawImageUrl && outpainted.aspectRatio === aspectRatio;
+    const renderSource = fit.mode === 'outpaint' && hasOutpaint ? outpainted.url : rawImageUrl;
+    const renderOptions = useMemo<RenderOptions>(() => ({
+        layers: textLayers,
+        fit: fit.mode === 'outpaint' && !hasOutpaint ? { ...fit, mode: 'blur' } : fit,
+        watermark: brandKits.brandWatermark(activeKit),
+    }), [textLayers, fit, hasOutpaint, activeKit]);
+
+    useEffect(() => {
+        if (!renderSource) return;
+        // Layer edits re-render rapidly; ignore results that finish after a newer render started.
+        let isCurrent = true;
+        drawCanvas(renderSource, aspectRatio, renderOptions)
+            .then(url => { if (isCurrent) setFinalImageUrl(url); })
+            .catch(err => { if (isCurrent) setActionError(`Canvas Render Error: ${err.message}`); });
+        return () => { isCurrent = false; };
+    }, [renderSource, aspectRatio, renderOptions]);
 
     const styles = ['Cinematic', 'Minimalist', 'Cartoonish', 'Photorealistic', 'Vibrant', 'Dark & Moody'];
     const aspectRatios: Array<AspectRatio> = ['16:9', '1:1', '9:16', '4:3', '3:4'];
-    
-    const handleImageUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-        const file = event.target.files?.[0];
-        if (file) {
-            const reader = new FileReader();
-            reader.onloadend = () => {
-                setUploadedImage({
-                    data: reader.result as string,
-                    mimeType: file.type,
-                });
-                setPrompt("");
-            };
-            reader.readAsDataURL(file);
+    const variantCounts = Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1);
+    const totalVariants = selectedStyles.length * variantCount;
+
+    const handleStyleClick = (s: string) => {
+        if (!isComparingStyles) {
+            setSelectedStyles([s]);
+            return;
         }
+        setSelectedStyles((current) => {
+            if (!current.includes(s)) return [...current, s];
+            // Always keep at least one style selected.
+            return current.length > 1 ? current.filter((c) => c !== s) : current;
+        });
     };
 
-    const removeImage = () => {
-        setUploadedImage(null);
-        setPrompt(initialPrompt);
-        if (fileInputRef.current) {
-            fileInputRef.current.value = "";
+    const toggleStyleComparison = () => {
+        if (isComparingStyles) {
+            setSelectedStyles((current) => current.slice(0, 1));
         }
+        setIsComparingStyles(!isComparingStyles);
+    };
+    
+    const handleAddReferences = useCallback((files: File[]) => {
+        const images = files.filter((file) => file.type.startsWith('image/'));
+        if (images.length === 0) {
+            setActionError('Only image files can be used as references.');
+            return;
+        }
+        // Queued files count against the free slots too.
+        setPendingUploads((current) => [...current, ...images].slice(0, MAX_REFERENCES - referenceImages.length));
+    }, [referenceImages.length]);
+
+    const handleAddProcessedReference = (image: UploadedImage) => {
+        const role = defaultRoleOrder.find((r) => !referenceImages.some((ref) => ref.role === r)) ?? 'subject';
+        setReferenceImages([...referenceImages, { ...image, id: crypto.randomUUID(), role }]);
+        if (referenceImages.length === 0) setPrompt("");
+        setPendingUploads((current) => current.slice(1));
+    };
+
+    useEffect(() => {
+        // Pasting a screenshot anywhere on the page adds it as a reference; text pastes are left alone.
+        const handlePaste = (event: ClipboardEvent) => {
+            const images = Array.from(event.clipboardData?.files ?? []).filter((file) => file.type.startsWith('image/'));
+            if (images.length === 0 || isLoading || referenceImages.length >= MAX_REFERENCES) return;
+            event.preventDefault();
+            handleAddReferences(images);
+        };
+        window.addEventListener('paste', handlePaste);
+        return () => window.removeEventListener('paste', handlePaste);
+    }, [handleAddReferences, isLoading, referenceImages.length]);
+
+    const handleRemoveReference = (id: string) => {
+        const remaining = referenceImages.filter((ref) => ref.id !== id);
+        setReferenceImages(remaining);
+        if (remaining.length === 0) setPrompt(initialPrompt);
+    };
+
+    const handleMoveReference = (id: string, direction: -1 | 1) => {
+        setReferenceImages((current) => {
+            const index = current.findIndex((ref) => ref.id === id);
+            const target = index + direction;
+            if (index < 0 || target < 0 || target >= current.length) return current;
+            const next = [...current];
+            [next[index], next[target]] = [next[target], next[index]];
+            return next;
+        });
+    };
+
+    const handleChangeReferenceRole = (id: string, role: ReferenceRole) => {
+        setReferenceImages((current) => current.map((ref) => ref.id === id ? { ...ref, role } : ref));
     };
 
     const handleGetSuggestions = useCallback(async () => {
         if (!prompt) return;
         setIsSuggesting(true);
-        setError(null);
+        setActionError(null);
         try {
-            const result = await getPromptSuggestions(prompt);
-            setPrompt(result.visual_prompt);
+            setIdeas(await getPromptIdeas(prompt));
         } catch (err) {
-            setError(err instanceof Error ? `Suggestion Error: ${err.message}` : 'An unknown error occurred while getting suggestions');
+            setActionError(err instanceof Error ? `Suggestion Error: ${err.message}` : 'An unknown error occurred while getting suggestions');
         } finally {
             setIsSuggesting(false);
         }
     }, [prompt]);
 
-    const handleGenerate = useCallback(async () => {
-        if (!prompt && !uploadedImage) return;
+    const handleUseIdeaPrompt = (idea: string) => {
+        setPromptBeforeIdea((previous) => previous ?? prompt);
+        setPrompt(idea);
+    };
+
+    const handleRestorePrompt = () => {
+        if (promptBeforeIdea === null) return;
+        setPrompt(promptBeforeIdea);
+        setPromptBeforeIdea(null);
+    };
+
+    const handleUseHeadline = (headline: string) => {
+        // The first layer is the headline by convention; add one if the user removed it.
+        setTextLayers((current) => current.length > 0
+            ? current.map((layer, i) => i === 0 ? { ...layer, text: headline } : layer)
+            : [createTextLayer({ text: headline, ...(activeKit ? { fontFamily: activeKit.headlineFont } : {}) })]);
+    };
+
+    const handleApplyTemplate = (filled: string) => {
+        setPrompt(filled);
+        setPromptBeforeIdea(null);
+    };
+
+    const handleSaveTemplate = (name: string, template: string) => {
+        savePromptTemplate({ id: crypto.randomUUID(), name, template, builtIn: false, updatedAt: Date.now() })
+            .then(refreshTemplates)
+            .catch((err) => setActionError(err instanceof Error ? `Template Error: ${err.message}` : 'An unknown error occurred while saving the template'));
+    };
+
+    const handleDeleteTemplate = (id: string) => {
+        deletePromptTemplate(id)
+            .then(refreshTemplates)
+            .catch((err) => setActionError(err instanceof Error ? `Template Error: ${err.message}` : 'An unknown error occurred while deleting the template'));
+    };
+
+    const runGeneration = useCallback(async (settings: GenerationSettings) => {
+        const { prompt, negativePrompt, styles, aspectRatio, referenceImages, variantCount, brandKit } = settings;
+        if (!prompt && referenceImages.length === 0) return;
+
+        generationAbortRef.current?.abort();
+        const controller = new AbortController();
+        generationAbortRef.current = controller;
 
         setIsLoading(true);
         setError(null);
-        setRawImageUrl(null);
+        setGenerationError(null);
+        setGenerationNotice(null);
+        setRetryStatus(null);
         setFinalImageUrl(null);
+        setVariants([]);
+        setVersionTrees({});
+        setIsMasking(false);
+        setSelectedVariantId(null);
+        setIsComparingVariants(false);
+        setExportResults([]);
 
         try {
-            const finalPrompt = `${prompt}, ${style.toLowerCase()} style`;
-            const imageToPass = uploadedImage ? { data: uploadedImage.data.split(',')[1], mimeType: uploadedImage.mimeType } : null;
-            
-            const generatedUrl = await generateThumbnail(finalPrompt, negativePrompt, aspectRatio, imageToPass);
-            setRawImageUrl(generatedUrl);
+            const referencesToPass = referenceImages.map((ref): InlineReference => ({ data: ref.data.split(',')[1], mimeType: ref.mimeType, role: ref.role }));
+
+            // One batch per style; a failing style should not throw away the others.
+            const results = await Promise.allSettled(styles.map(async (s) => {
+                const finalPrompt = brandKits.applyBrandToPrompt(stylePrompt(prompt, s), brandKit);
+                const finalNegativePrompt = brandKits.mergeNegativePrompt(negativePrompt, brandKit);
+                const outcome = await generateThumbnails(finalPrompt, finalNegativePrompt, aspectRatio, referencesToPass, variantCount, {
+                    signal: controller.signal,
+                    onRetry: ({ attempt, maxAttempts, delayMs, category }) => setRetryStatus(`${errorTitles[category]} — retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt + 1} of ${maxAttempts})`),
+                });
+                return { outcome, variants: outcome.images.map((imageUrl): Variant => ({ id: crypto.randomUUID(), imageUrl, style: s, favourite: false })) };
+            }));
+            if (controller.signal.aborted) return;
+
+            const succeeded = results.flatMap((result) => result.status === 'fulfilled' ? [result.value] : []);
+            const generated = succeeded.flatMap((result) => result.variants);
+            if (generated.length === 0) {
+                const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+                throw failure?.reason ?? new Error('No images were generated.');
+            }
+
+            if (succeeded.some((result) => result.outcome.usedFallback)) {
+                setGenerationNotice('The edit model could not use your reference images, so these were generated from the prompt alone.');
+            }
+            setVariants(generated);
+            setVersionTrees(Object.fromEntries(generated.map((variant) => [variant.id, versionTree.createVersionTree(variant.imageUrl)])));
+            const createdAt = Date.now();
+            historyStore.saveGenerations(succeeded.flatMap(({ outcome, variants: batch }) => batch.map((variant): GenerationRecord => ({
+                id: variant.id,
+                projectId: activeProjectId,
+                recipe: { prompt, negativePrompt, style: variant.style, aspectRatio, referenceImages, model: outcome.model },
+                imageUrl: variant.imageUrl,
+                createdAt,
+            }))))
+                .then(refreshHistory)
+                .catch((err) => console.error("Error saving history:", err));
 
+            if (generated.length === 1) {
+                setSelectedVariantId(generated[0].id);
+            } else {
+                setIsComparingVariants(true);
+                setIsLoading(false);
+            }
         } catch (err) {
+            if (controller.signal.aborted) return;
             setError(err instanceof Error ? err.message : 'An unknown error occurred');
+            setGenerationError(err instanceof GenerationError ? err : null);
             setIsLoading(false);
         } finally {
-             // Let the useEffect handle the final isLoading state after canvas render
+            // Let the useEffect handle the final isLoading state after canvas render
+            if (generationAbortRef.current === controller) {
+                generationAbortRef.current = null;
+                setRetryStatus(null);
+            }
         }
-    }, [prompt, negativePrompt, style, aspectRatio, uploadedImage]);
+    }, [activeProjectId, refreshHistory]);
+
+    const errorCategory: ErrorCategory = generationError && generationError.message === error ? generationError.category : 'unknown';
+
+    const handleCancelGeneration = () => {
+        generationAbortRef.current?.abort();
+        generationAbortRef.current = null;
+        setRetryStatus(null);
+        setIsLoading(false);
+    };
+
+    const actionBusySetters: Record<CancellableAction, (busy: boolean) => void> = {
+        refine: setIsRefining,
+        inpaint: setIsInpainting,
+        outpaint: setIsOutpainting,
+        critique: setIsCritiquing,
+    };
+
+    const startAction = (action: CancellableAction): AbortController => {
+        actionAbortRefs.current[action]?.abort();
+        const controller = new AbortController();
+        actionAbortRefs.current[action] = controller;
+        actionBusySetters[action](true);
+        return controller;
+    };
+
+    // A cancelled request may settle after a newer one started; only the latest may clear the busy flag.
+    const finishAction = (action: CancellableAction, controller: AbortController) => {
+        if (actionAbortRefs.current[action] !== controller) return;
+        delete actionAbortRefs.current[action];
+        actionBusySetters[action](false);
+    };
+
+    const cancelAction = (action: CancellableAction) => {
+        actionAbortRefs.current[action]?.abort();
+        delete actionAbortRefs.current[action];
+        actionBusySetters[action](false);
+    };
+
+    const handleGenerate = useCallback(() => {
+        runGeneration({ prompt, negativePrompt, styles: selectedStyles, aspectRatio, referenceImages, variantCount, brandKit: activeKit });
+    }, [runGeneration, prompt, negativePrompt, selectedStyles, aspectRatio, referenceImages, variantCount, activeKit]);
+
+    const restoreRecipe = (record: GenerationRecord) => {
+        const { recipe } = record;
+        setPrompt(recipe.prompt);
+        setNegativePrompt(recipe.negativePrompt);
+        setSelectedStyles([recipe.style]);
+        setIsComparingStyles(false);
+        setAspectRatio(recipe.aspectRatio);
+        setReferenceImages(recipe.referenceImages);
+        setIsHistoryOpen(false);
+    };
+
+    const handleRegenerate = (record: GenerationRecord) => {
+        restoreRecipe(record);
+        const { recipe } = record;
+        runGeneration({
+            prompt: recipe.prompt,
+            negativePrompt: recipe.negativePrompt,
+            styles: [recipe.style],
+            aspectRatio: recipe.aspectRatio,
+            referenceImages: recipe.referenceImages,
+            variantCount,
+            brandKit: activeKit,
+        });
+    };
+
+    const runHistoryAction = (action: () => Promise<void>) => {
+        action()
+            .then(refreshHistory)
+            .catch((err) => setActionError(err instanceof Error ? `History Error: ${err.message}` : 'An unknown error occurred while updating history'));
+    };
+
+    const handleCreateProject = (name: string) => runHistoryAction(async () => {
+        const project: Project = { id: crypto.randomUUID(), name, createdAt: Date.now() };
+        await historyStore.saveProject(project);
+        setActiveProjectId(project.id);
+    });
+
+    const handleDeleteProject = (id: string) => runHistoryAction(async () => {
+        await historyStore.deleteProject(id);
+        if (activeProjectId === id) setActiveProjectId(null);
+    });
+
+    const handleAssignProject = (id: string, projectId: string | null) => runHistoryAction(() => historyStore.assignGenerationToProject(id, projectId));
+
+    const handleDeleteGeneration = (id: string) => runHistoryAction(() => historyStore.deleteGeneration(id));
+
+    const handlePickVariant = useCallback((id: string) => {
+        const variant = variants.find((v) => v.id === id);
+        if (!variant) return;
+        setSelectedVariantId(id);
+        setIsComparingVariants(false);
+    }, [variants]);
+
+    const handleToggleFavourite = useCallback((id: string) => {
+        setVariants((current) => current.map((v) => v.id === id ? { ...v, favourite: !v.favourite } : v));
+    }, []);
+
+    const handleDiscardVariant = useCallback((id: string) => {
+        const remaining = variants.filter((v) => v.id !== id);
+        setVariants(remaining);
+        if (id === selectedVariantId) {
+            setSelectedVariantId(null);
+            setFinalImageUrl(null);
+        }
+        if (remaining.length <= 1) {
+            setIsComparingVariants(false);
+            if (remaining.length === 1) handlePickVariant(remaining[0].id);
+        }
+    }, [variants, selectedVariantId, handlePickVariant]);
     
     useEffect(() => {
         if (rawImageUrl) {
@@ -158,6 +521,212 @@ const App: React.FC = () => {
         }
     }, [rawImageUrl]);
 
+    const updateActiveTree = (update: (tree: VersionTree) => VersionTree) => {
+        if (!selectedVariantId) return;
+        setVersionTrees((trees) => trees[selectedVariantId] ? { ...trees, [selectedVariantId]: update(trees[selectedVariantId]) } : trees);
+    };
+
+    const handleRefine = useCallback(async (instruction: string) => {
+        if (!selectedVariantId || !activeTree || !rawImageUrl) return;
+        // Pin the target so switching variants or undoing mid-request cannot misplace the result.
+        const variantId = selectedVariantId;
+        const parentId = activeTree.currentId;
+        const controller = startAction('refine');
+        setRefineError(null);
+        try {
+            const source = await loadImage(rawImageUrl);
+            const subjects = referenceImages
+                .filter((ref) => ref.role === 'subject')
+                .map((ref): InlineReference => ({ data: ref.data.split(',')[1], mimeType: ref.mimeType, role: ref.role }));
+            const refinedUrl = await refineImage(rawImageUrl, instruction, subjects, { width: source.width, height: source.height }, { signal: controller.signal });
+            if (controller.signal.aborted) return;
+            setVersionTrees((trees) => trees[variantId]
+                ? { ...trees, [variantId]: versionTree.addVersion(trees[variantId], refinedUrl, instruction, parentId) }
+                : trees);
+        } catch (err) {
+            if (controller.signal.aborted) return;
+            // Shown inside the chat: a failed follow-up should not hide the image being refined.
+            setRefineError(err instanceof Error ? err.message : 'An unknown error occurred while refining');
+        } finally {
+            finishAction('refine', controller);
+        }
+    }, [selectedVariantId, activeTree, rawImageUrl, referenceImages]);
+
+    const handleInpaint = useCallback(async (mask: HTMLCanvasElement, instruction: string, featherRadius: number) => {
+        if (!selectedVariantId || !activeTree || !rawImageUrl) return;
+        const variantId = selectedVariantId;
+        const parentId = activeTree.currentId;
+        const controller = startAction('inpaint');
+        setInpaintError(null);
+        try {
+            const source = await loadImage(rawImageUrl);
+            const editedUrl = await inpaintImage(rawImageUrl, maskToDataUrl(mask), instruction, { width: source.width, height: source.height }, { signal: controller.signal });
+            const compositedUrl = await compositeInpaint(rawImageUrl, editedUrl, mask, featherRadius);
+            if (controller.signal.aborted) return;
+            setVersionTrees((trees) => trees[variantId]
+                ? { ...trees, [variantId]: versionTree.addVersion(trees[variantId], compositedUrl, `Region: ${instruction}`, parentId) }
+                : trees);
+        } catch (err) {
+            if (controller.signal.aborted) return;
+            setInpaintError(err instanceof Error ? err.message : 'An unknown error occurred while editing the region');
+        } finally {
+            finishAction('inpaint', controller);
+        }
+    }, [selectedVariantId, activeTree, rawImageUrl]);
+
+    // Changes in `kitKey` mean a kit was picked, restored on load or edited; a new
+    // `activeKit` object alone (e.g. after the library reloads) changes nothing.
+    const kitKey = brandKitKey(activeKit);
+    const hasNoReferences = referenceImages.length === 0;
+    const kitDefaultsRef = useRef({ kitKey, hasNoReferences });
+
+    useEffect(() => {
+        const previous = kitDefaultsRef.current;
+        kitDefaultsRef.current = { kitKey, hasNoReferences };
+        if (!activeKit) return;
+        const kitChanged = previous.kitKey !== kitKey;
+        if (kitChanged) {
+            setTextLayers((current) => current.map((layer) => ({ ...layer, fontFamily: activeKit.headlineFont })));
+        }
+        // The host photo fills an empty subject slot, including after the references are cleared.
+        const { hostPhoto } = activeKit;
+        if (hostPhoto && (kitChanged || (hasNoReferences && !previous.hasNoReferences))) {
+            const hostReference: ReferenceImage = { ...hostPhoto, id: crypto.randomUUID(), role: 'subject' };
+            setReferenceImages((current) => current.some((ref) => ref.role === 'subject') ? current : [hostReference, ...current].slice(0, MAX_REFERENCES));
+        }
+    }, [activeKit, kitKey, hasNoReferences]);
+
+    const runBrandKitAction = (action: () => Promise<void>) => {
+        action()
+            .then(refreshBrandKits)
+            .catch((err) => setActionError(err instanceof Error ? `Brand Kit Error: ${err.message}` : 'An unknown error occurred while updating brand kits'));
+    };
+
+    const handleSaveBrandKit = (kit: BrandKit) => runBrandKitAction(async () => {
+        await brandKits.saveBrandKit(kit);
+    });
+
+    const handleDeleteBrandKit = (id: string) => runBrandKitAction(async () => {
+        await brandKits.deleteBrandKit(id);
+        if (id === activeKitId) setActiveKitId(null);
+    });
+
+    const handleImportBrandKit = (file: File) => runBrandKitAction(async () => {
+        await brandKits.saveBrandKit(brandKits.parseBrandKit(await file.text()));
+    });
+
+    const handleExportBrandKit = (kit: BrandKit) => {
+        const slug = kit.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'brand-kit';
+        downloadBlob(new Blob([brandKits.serializeBrandKit(kit)], { type: 'application/json' }), `${slug}.brand-kit.json`);
+    };
+
+    const handleSaveProject = () => {
+        const snapshot: EditorSnapshot = {
+            prompt,
+            negativePrompt,
+            styles: selectedStyles,
+            aspectRatio,
+            variantCount,
+            referenceImages,
+            variants,
+            versionTrees,
+            selectedVariantId,
+            textLayers,
+            fit,
+            outpainted,
+            brandKit: activeKit,
+        };
+        const slug = (textLayers[0]?.text ?? '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40) || 'bhagat-thumbnail';
+        downloadBlob(createProjectFile(snapshot, finalImageUrl), `${slug}.project.zip`);
+    };
+
+    const handleOpenProject = async (file: File) => {
+        try {
+            const snapshot = await readProjectFile(file);
+            generationAbortRef.current?.abort();
+            generationAbortRef.current = null;
+            cancellableActions.forEach(cancelAction);
+
+            // A kit the user already has wins over the copy in the file, so opening a project never overwrites their library.
+            const { brandKit } = snapshot;
+            let library = kits;
+            if (brandKit && !kits.some((kit) => kit.id === brandKit.id)) {
+                await brandKits.saveBrandKit(brandKit);
+                library = await brandKits.listBrandKits();
+                setKits(library);
+            }
+            setActiveKitId(brandKit?.id ?? null);
+            // The project already carries the kit's fonts and references; do not apply its defaults on top.
+            kitDefaultsRef.current = {
+                kitKey: brandKitKey(library.find((kit) => kit.id === brandKit?.id) ?? null),
+                hasNoReferences: snapshot.referenceImages.length === 0,
+            };
+
+            setPrompt(snapshot.prompt);
+            setNegativePrompt(snapshot.negativePrompt);
+            setSelectedStyles(snapshot.styles);
+            setIsComparingStyles(snapshot.styles.length > 1);
+            setAspectRatio(snapshot.aspectRatio);
+            setVariantCount(snapshot.variantCount);
+            setReferenceImages(snapshot.referenceImages);
+            setVariants(snapshot.variants);
+            setVersionTrees(snapshot.versionTrees);
+            setSelectedVariantId(snapshot.selectedVariantId);
+            setIsComparingVariants(!snapshot.selectedVariantId && snapshot.variants.length > 1);
+            setTextLayers(snapshot.textLayers);
+            setSelectedLayerId(null);
+            setFit(snapshot.fit);
+            setOutpainted(snapshot.outpainted);
+
+            setFinalImageUrl(null);
+            setIsLoading(false);
+            setError(null);
+            setActionError(null);
+            setGenerationError(null);
+            setGenerationNotice(null);
+            setIsMasking(false);
+            setRefineError(null);
+            setInpaintError(null);
+            setIdeas(null);
+            setPromptBeforeIdea(null);
+            setExportResults([]);
+            setAnalysis(null);
+            setCritique(null);
+            setAnalysisError(null);
+        } catch (err) {
+            setActionError(err instanceof Error ? `Project Error: ${err.message}` : 'An unknown error occurred while opening the project');
+        }
+    };
+
+    const handleAddLayer = () => {
+        const layer = createTextLayer({ y: 0.5, ...(activeKit ? { fontFamily: activeKit.headlineFont } : {}) });
+        setTextLayers((current) => [...current, layer]);
+        setSelectedLayerId(layer.id);
+    };
+
+    const handleChangeLayer = useCallback((id: string, patch: Partial<TextLayer>) => {
+        setTextLayers((current) => current.map((layer) => layer.id === id ? { ...layer, ...patch } : layer));
+    }, []);
+
+    const handleMoveLayer = useCallback((id: string, x: number, y: number) => {
+        handleChangeLayer(id, { x, y });
+    }, [handleChangeLayer]);
+
+    const handleRemoveLayer = (id: string) => {
+        setTextLayers((current) => current.filter((layer) => layer.id !== id));
+        if (id === selectedLayerId) setSelectedLayerId(null);
+    };
+
+    const handleReorderLayer = (id: string, direction: -1 | 1) => {
+        setTextLayers((current) => {
+            const index = current.findIndex((layer) => layer.id === id);
+            const target = index + direction;
+            if (index < 0 || target < 0 || target >= current.length) return current;
+            const next = [...current];
+            [next[index], next[target]] = [next[target], next[index]];
+            return next;
+        });
+    };
 
     const handleDownload = useCallback(() => {
         if (!finalImageUrl) return;
@@ -169,6 +738,81 @@ const App: React.FC = () => {
         document.body.removeChild(link);
     }, [finalImageUrl]);
 
+    const handleOutpaint = useCallback(async () => {
+        if (!rawImageUrl) return;
+        const controller = startAction('outpaint');
+        try {
+            const padded = await composeCanvas(rawImageUrl, aspectRatio, { fit: { ...fit, mode: 'solid' } });
+            const url = await outpaintImage(padded.toDataURL('image/png'), aspectRatio, { width: padded.width, height: padded.height }, { signal: controller.signal });
+            if (controller.signal.aborted) return;
+            setOutpainted({ source: rawImageUrl, aspectRatio, url });
+        } catch (err) {
+            if (controller.signal.aborted) return;
+            setActionError(err instanceof Error ? `Extend Error: ${err.message}` : 'An unknown error occurred while extending the image');
+        } finally {
+            finishAction('outpaint', controller);
+        }
+    }, [rawImageUrl, aspectRatio, fit]);
+
+    const handleExport = useCallback(async (presetId: string, format: ExportFormat | null) => {
+        const preset = exportPresets.find((p) => p.id === presetId);
+        if (!renderSource || !preset) return;
+        setIsExporting(true);
+        try {
+            const result = await exportForPreset(renderSource, renderOptions, preset, format ?? preset.format);
+            setExportResults([result]);
+            downloadBlob(result.blob, result.filename);
+        } catch (err) {
+            setActionError(err instanceof Error ? `Export Error: ${err.message}` : 'An unknown error occurred while exporting');
+        } finally {
+            setIsExporting(false);
+        }
+    }, [renderSource, renderOptions]);
+
+    const handleExportAll = useCallback(async (format: ExportFormat | null) => {
+        if (!renderSource) return;
+        setIsExporting(true);
+        try {
+            const { zip, results } = await exportAllPresets(renderSource, renderOptions, format ?? undefined);
+            setExportResults(results);
+            downloadBlob(zip, 'bhagat-thumbnail-all-presets.zip');
+        } catch (err) {
+            setActionError(err instanceof Error ? `Export Error: ${err.message}` : 'An unknown error occurred while exporting');
+        } finally {
+            setIsExporting(false);
+        }
+    }, [renderSource, renderOptions]);
+
+    const handleAnalyze = useCallback(async () => {
+        if (!renderSource || !finalImageUrl) return;
+        setIsAnalyzing(true);
+        setAnalysisError(null);
+        try {
+            const result = await analyzeThumbnail(renderSource, aspectRatio, renderOptions, finalImageUrl);
+            setAnalysis({ imageUrl: finalImageUrl, result });
+        } catch (err) {
+            setAnalysisError(err instanceof Error ? `Analysis Error: ${err.message}` : 'An unknown error occurred while analyzing');
+        } finally {
+            setIsAnalyzing(false);
+        }
+    }, [renderSource, aspectRatio, renderOptions, finalImageUrl]);
+
+    const handleCritique = useCallback(async () => {
+        if (!analysis || analysis.imageUrl !== finalImageUrl) return;
+        const controller = startAction('critique');
+        setAnalysisError(null);
+        try {
+            const result = await critiqueThumbnail(analysis.imageUrl, describeAnalysis(analysis.result), { signal: controller.signal });
+            if (controller.signal.aborted) return;
+            setCritique({ imageUrl: analysis.imageUrl, result });
+        } catch (err) {
+            if (controller.signal.aborted) return;
+            setAnalysisError(err instanceof Error ? `Critique Error: ${err.message}` : 'An unknown error occurred while asking for a critique');
+        } finally {
+            finishAction('critique', controller);
+        }
+    }, [analysis, finalImageUrl]);
+
     return (
         <div className={`min-h-screen w-full bg-gray-900 text-gray-200 transition-opacity duration-1000 ${isAppVisible ? 'opacity-100' : 'opacity-0'}`}>
             <main className="max-w-screen-2xl mx-auto p-4 sm:p-6 lg:p-8">
@@ -180,20 +824,49 @@ const App: React.FC = () => {
                                 Bhagat <span className="text-amber-500">AI Generator</span>
                             </h1>
                             <p className="mt-2 text-sm text-gray-400">Craft your vision into a viral masterpiece.</p>
+                            <button onClick={() => setIsHistoryOpen(true)} className="mt-4 inline-flex items-center gap-2 text-sm font-semibold text-amber-500 hover:text-amber-400">
+                                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+                                History{history.length > 0 ? ` (${history.length})` : ''}
+                            </button>
+                            <div className="mt-2 flex items-center justify-center gap-4 text-xs">
+                                <button onClick={handleSaveProject} disabled={isLoading} className="text-gray-400 hover:text-amber-400 disabled:opacity-50">Save project</button>
+                                <button onClick={() => projectInputRef.current?.click()} disabled={isLoading} className="text-gray-400 hover:text-amber-400 disabled:opacity-50">Open project</button>
+                                <input ref={projectInputRef} type="file" accept="application/zip,.zip" className="sr-only" onChange={(e) => { const file = e.target.files?.[0]; if (file) handleOpenProject(file); e.target.value = ''; }} />
+                            </div>
                         </header>
 
+                        {/* Brand Kit */}
+                        <div className="flex items-center gap-2 mb-6">
+                            <select className="flex-1 bg-gray-900 border border-gray-700 rounded-md p-2 text-sm text-gray-200 focus:ring-2 focus:ring-amber-500 focus:border-amber-500" value={activeKit?.id ?? ''} onChange={(e) => setActiveKitId(e.target.value || null)} disabled={isLoading} aria-label="Brand kit">
+                                <option value="">No brand kit</option>
+                                {kits.map((kit) => <option key={kit.id} value={kit.id}>{kit.name}</option>)}
+                            </select>
+                            <button onClick={() => setIsBrandKitOpen(true)} className="px-3 py-2 text-sm rounded-md border border-gray-600 text-gray-300 hover:bg-gray-700">Manage</button>
+                        </div>
+                        {activeKit && (
+                            <div className="-mt-4 mb-6 flex items-center gap-1">
+                                {activeKit.palette.map((color, i) => <span key={i} className="h-4 w-4 rounded-sm border border-gray-700" style={{ backgroundColor: color }} />)}
+                                <span className="ml-2 text-xs text-gray-500 truncate">Palette, tone{activeKit.bannedElements.length > 0 ? ', banned items' : ''}{activeKit.logo ? ' and logo' : ''} applied automatically</span>
+                            </div>
+                        )}
+
                         <div className="space-y-6">
                             {/* Step 1: Prompt */}
                             <div>
                                 <label htmlFor="prompt-input" className="block text-sm font-semibold text-gray-300 mb-2">
                                     1. Describe Your Vision
                                 </label>
+                                <PromptTemplatePicker templates={templates} currentPrompt={prompt} disabled={isLoading} onApply={handleApplyTemplate} onSave={handleSaveTemplate} onDelete={handleDeleteTemplate} />
                                 <div className="relative w-full">
-                                    <textarea id="prompt-input" rows={5} className="w-full bg-gray-900 border border-gray-700 rounded-lg p-3 pr-10 text-gray-200 placeholder-gray-500 focus:ring-2 focus:ring-amber-500 focus:border-amber-500" placeholder={uploadedImage ? "e.g., Place this person in a futuristic city..." : "e.g., A cat wearing a spacesuit..."} value={prompt} onChange={(e) => setPrompt(e.target.value)} disabled={isLoading} />
-                                    <button type="button" title="Improve prompt with AI" className="absolute bottom-3 right-3 text-gray-400 hover:text-amber-500 disabled:opacity-50 disabled:cursor-not-allowed" disabled={isLoading || isSuggesting || !prompt} aria-label="Improve prompt with AI" onClick={handleGetSuggestions}>
+                                    <textarea id="prompt-input" rows={5} className="w-full bg-gray-900 border border-gray-700 rounded-lg p-3 pr-10 text-gray-200 placeholder-gray-500 focus:ring-2 focus:ring-amber-500 focus:border-amber-500" placeholder={referenceImages.length > 0 ? "e.g., Place this person in a futuristic city..." : "e.g., A cat wearing a spacesuit..."} value={prompt} onChange={(e) => setPrompt(e.target.value)} disabled={isLoading} />
+                                    <button type="button" title="Suggest alternatives with AI" className="absolute bottom-3 right-3 text-gray-400 hover:text-amber-500 disabled:opacity-50 disabled:cursor-not-allowed" disabled={isLoading || isSuggesting || !prompt} aria-label="Suggest alternatives with AI" onClick={handleGetSuggestions}>
                                         {isSuggesting ? <svg className="animate-spin h-5 w-5" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg> : <svg xmlns="http://www.w3.org/2000/svg" className="w-5 h-5" viewBox="0 0 20 20" fill="currentColor"><path d="M10 3.5a1.5 1.5 0 011.493 1.355l.57 2.282a3.5 3.5 0 002.418 2.418l2.281.571a1.5 1.5 0 010 2.988l-2.281.57a3.5 3.5 0 00-2.418 2.419l-.57 2.28a1.5 1.5 0 01-2.986 0l-.57-2.28a3.5 3.5 0 00-2.418-2.419l-2.281-.57a1.5 1.5 0 010-2.988l2.281-.57a3.5 3.5 0 002.418-2.418l.57-2.282A1.5 1.5 0 0110 3.5zM5.25 15.25a.75.75 0 01.745.668l.286 1.142a2.5 2.5 0 001.727 1.727l1.142.286a.75.75 0 010 1.49l-1.142.286a2.5 2.5 0 00-1.727 1.727l-.286 1.142a.75.75 0 01-1.49 0l-.286-1.142a2.5 2.5 0 00-1.727-1.727l-1.142-.286a.75.75 0 010-1.49l1.142-.286a2.5 2.5 0 001.727-1.727l.286-1.142a.75.75 0 01.668-.745zM14.75 5.25a.75.75 0 01.745.668l.286 1.142a2.5 2.5 0 001.727 1.727l1.142.286a.75.75 0 010 1.49l-1.142.286a2.5 2.5 0 00-1.727 1.727l-.286 1.142a.75.75 0 01-1.49 0l-.286-1.142a2.5 2.5 0 00-1.727-1.727l-1.142-.286a.75.75 0 010-1.49l1.142-.286a2.5 2.5 0 001.727-1.727l.286-1.142a.75.75 0 01.668-.745z" /></svg>}
                                     </button>
                                 </div>
+                                {promptBeforeIdea !== null && (
+                                    <button type="button" onClick={handleRestorePrompt} className="mt-1 text-xs text-gray-500 hover:text-amber-400">↶ Restore my original prompt</button>
+                                )}
+                                {ideas && ideas.length > 0 && <PromptIdeas ideas={ideas} onUsePrompt={handleUseIdeaPrompt} onUseHeadline={handleUseHeadline} onClose={() => setIdeas(null)} />}
                             </div>
                             {/* Negative Prompt */}
                              <div>
@@ -202,40 +875,103 @@ const App: React.FC = () => {
                             </div>
                             {/* Step 3: Reference Image */}
                              <div>
-                                <label className="block text-sm font-semibold text-gray-300 mb-2">3. Reference Image <span className='text-gray-500 font-normal'>(Optional)</span></label>
-                                {uploadedImage ? (
-                                    <div className="p-4 rounded-lg bg-gray-900 border border-gray-700 text-center"><div className="relative group inline-block"><img src={uploadedImage.data} alt="Upload preview" className="max-h-32 w-auto rounded-lg shadow-md mx-auto" /><button onClick={removeImage} className="absolute -top-2 -right-2 bg-red-600 rounded-full p-1.5 text-white opacity-0 group-hover:opacity-100" aria-label="Remove image"><svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg></button></div><p className="text-xs text-gray-500 mt-2">AI will preserve the character's likeness.</p></div>
-                                ) : (
-                                    <div className="flex justify-center items-center rounded-lg border-2 border-dashed border-gray-600 p-6 bg-gray-900 hover:border-amber-500"><div className="text-center"><svg className="mx-auto h-8 w-8 text-gray-500" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5m-13.5-9L12 3m0 0l4.5 4.5M12 3v13.5" /></svg><label htmlFor="file-upload" className="mt-2 text-sm font-semibold text-amber-500 cursor-pointer hover:text-amber-400">Upload an image<input id="file-upload" type="file" className="sr-only" onChange={handleImageUpload} ref={fileInputRef} accept="image/png, image/jpeg, image/webp" /></label><p className="text-xs text-gray-500">PNG, JPG, WEBP</p></div></div>
-                                )}
+                                <label className="block text-sm font-semibold text-gray-300 mb-2">3. Reference Images <span className='text-gray-500 font-normal'>(Optional)</span></label>
+                                <ReferenceSlots references={referenceImages} maxReferences={MAX_REFERENCES} disabled={isLoading} onAddFiles={handleAddReferences} onRemove={handleRemoveReference} onMove={handleMoveReference} onChangeRole={handleChangeReferenceRole} />
                             </div>
                             {/* Step 4: Style & Ratio */}
                             <div>
-                                <label className="block text-sm font-semibold text-gray-300 mb-2">4. Style & Aspect Ratio</label>
+                                <div className="flex items-center justify-between mb-2">
+                                    <label className="block text-sm font-semibold text-gray-300">4. Style & Aspect Ratio</label>
+                                    <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer"><input type="checkbox" className="accent-amber-500" checked={isComparingStyles} onChange={toggleStyleComparison} disabled={isLoading} />Compare styles</label>
+                                </div>
                                 <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 mb-4">
-                                    {styles.map((s) => <button key={s} onClick={() => setStyle(s)} disabled={isLoading} className={`text-center text-sm p-2.5 rounded-md border ${style === s ? 'bg-amber-600 font-semibold border-amber-500 text-white' : 'bg-gray-700 border-gray-600 hover:bg-gray-600'}`}>{s}</button>)}
+                                    {styles.map((s) => <button key={s} onClick={() => handleStyleClick(s)} disabled={isLoading} className={`text-center text-sm p-2.5 rounded-md border ${selectedStyles.includes(s) ? 'bg-amber-600 font-semibold border-amber-500 text-white' : 'bg-gray-700 border-gray-600 hover:bg-gray-600'}`}>{s}</button>)}
                                 </div>
                                 <div className="grid grid-cols-3 sm:grid-cols-5 gap-2">
                                     {aspectRatios.map((ar) => <button key={ar} onClick={() => setAspectRatio(ar)} disabled={isLoading} className={`text-center text-sm p-2 rounded-md border h-12 ${aspectRatio === ar ? 'bg-amber-600 font-semibold border-amber-500 text-white' : 'bg-gray-700 border-gray-600 hover:bg-gray-600'}`}>{ar}</button>)}
                                 </div>
+                                <div className="mt-4">
+                                    <span className="block text-sm text-gray-400 mb-2">Fill when the ratio changes</span>
+                                    <FitModePanel fit={fit} aspectRatio={aspectRatio} rawImageUrl={rawImageUrl} disabled={isLoading} isOutpainting={isOutpainting} hasOutpaint={hasOutpaint} onChange={setFit} onOutpaint={handleOutpaint} onCancelOutpaint={() => cancelAction('outpaint')} />
+                                </div>
+                                <div className="flex items-center justify-between mt-4">
+                                    <span className="text-sm text-gray-400">Variants{isComparingStyles ? ' per style' : ''}</span>
+                                    <div className="flex gap-1">
+                                        {variantCounts.map((n) => <button key={n} onClick={() => setVariantCount(n)} disabled={isLoading} className={`w-9 text-center text-sm py-1.5 rounded-md border ${variantCount === n ? 'bg-amber-600 font-semibold border-amber-500 text-white' : 'bg-gray-700 border-gray-600 hover:bg-gray-600'}`}>{n}</button>)}
+                                    </div>
+                                </div>
+                            </div>
+
+                            {/* Step 5: Text Layers */}
+                            <div>
+                                <div className="flex items-center justify-between mb-2">
+                                    <label className="block text-sm font-semibold text-gray-300">5. Text Layers</label>
+                                    <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer"><input type="checkbox" className="accent-amber-500" checked={showGuides} onChange={() => setShowGuides(!showGuides)} />Safe-area guides</label>
+                                </div>
+                                <TextLayerPanel layers={textLayers} selectedId={selectedLayerId} disabled={isLoading} onSelect={setSelectedLayerId} onAdd={handleAddLayer} onChange={handleChangeLayer} onRemove={handleRemoveLayer} onReorder={handleReorderLayer} />
                             </div>
                         </div>
 
                         <div className="pt-8 mt-auto">
-                            <button onClick={handleGenerate} disabled={isLoading || (!prompt && !uploadedImage)} className="w-full flex items-center justify-center gap-3 bg-amber-600 text-gray-900 font-bold py-3 px-6 rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed hover:bg-amber-500">
-                                {isLoading ? (<><svg className="animate-spin h-5 w-5" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg><span>Generating...</span></>) : (<><svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M11.3 1.046A1 1 0 0112 2v5h4a1 1 0 01.82 1.573l-7 10A1 1 0 018 18v-5H4a1 1 0 01-.82-1.573l7-10a1 1 0 011.12-.38z" clipRule="evenodd" /></svg><span>{uploadedImage ? 'Generate with Image' : 'Generate'}</span></>)}
+                            <button onClick={handleGenerate} disabled={isLoading || (!prompt && referenceImages.length === 0)} className="w-full flex items-center justify-center gap-3 bg-amber-600 text-gray-900 font-bold py-3 px-6 rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed hover:bg-amber-500">
+                                {isLoading ? (<><svg className="animate-spin h-5 w-5" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg><span>Generating...</span></>) : (<><svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M11.3 1.046A1 1 0 0112 2v5h4a1 1 0 01.82 1.573l-7 10A1 1 0 018 18v-5H4a1 1 0 01-.82-1.573l7-10a1 1 0 011.12-.38z" clipRule="evenodd" /></svg><span>{totalVariants > 1 ? `Generate ${totalVariants} Variants` : referenceImages.length > 0 ? `Generate with ${referenceImages.length > 1 ? 'Images' : 'Image'}` : 'Generate'}</span></>)}
                             </button>
                         </div>
                     </div>
 
                     {/* Right Display Panel */}
                     <div className="lg:col-span-8 xl:col-span-9 bg-gray-800 rounded-xl shadow-lg p-4 sm:p-6 flex flex-col items-center justify-center min-h-[60vh] lg:min-h-0">
+                        {generationNotice && !isLoading && (
+                            <div className="w-full mb-3 flex items-center justify-between gap-3 rounded-lg border border-amber-500/40 bg-amber-500/10 px-3 py-2 text-xs text-amber-300">
+                                <span>{generationNotice}</span>
+                                <button onClick={() => setGenerationNotice(null)} className="text-amber-400 hover:text-white" aria-label="Dismiss">✕</button>
+                            </div>
+                        )}
+                        {actionError && (
+                            <div role="alert" className="w-full mb-3 flex items-center justify-between gap-3 rounded-lg border border-red-500/40 bg-red-500/10 px-3 py-2 text-xs text-red-300">
+                                <span>{actionError}</span>
+                                <button onClick={() => setActionError(null)} className="text-red-400 hover:text-white" aria-label="Dismiss error">✕</button>
+                            </div>
+                        )}
                         <div className="w-full h-full rounded-xl bg-gray-900 border border-gray-700 flex flex-col items-center justify-center" aria-live="polite">
-                            {isLoading ? <Loader /> : error ? <div role="alert" className="text-center text-red-400 p-8"><h3 className="text-xl font-bold">Generation Failed</h3><p className="mt-2 text-sm max-w-md">{error}</p><button onClick={handleGenerate} className="mt-6 px-5 py-2.5 bg-amber-600 text-gray-900 rounded-lg font-semibold hover:bg-amber-500">Try Again</button></div> : finalImageUrl ? (<div className="w-full text-center flex flex-col items-center h-full p-4"><div className={`w-full flex-1 flex items-center justify-center`}><img src={finalImageUrl} alt="Generated thumbnail" className="max-w-full max-h-full object-contain rounded-lg shadow-2xl" /></div><button onClick={handleDownload} className="mt-6 inline-flex items-center justify-center gap-2 bg-green-600 text-white font-bold py-3 px-8 rounded-lg shadow-md hover:bg-green-500 transform hover:scale-105"><svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>Download</button></div>) : (<div className="text-center text-gray-500 p-8"><svg xmlns="http://www.w3.org/2000/svg" className="mx-auto h-24 w-24 opacity-20" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M4 3.25a.75.75 0 01.75-.75h14.5a.75.75 0 01.75.75v17.5a.75.75 0 01-.75.75H4.75a.75.75 0 01-.75-.75V3.25z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M9 7.75h6m-6 4.5h6m-6 4.5h3" /></svg><p className="mt-6 text-2xl font-serif text-gray-400">Your Masterpiece Awaits</p><p className="mt-2 text-gray-500">Describe your vision and let the AI bring it to life.</p></div>)}
+                            {isLoading ? <div className="flex flex-col items-center"><Loader />{retryStatus && <p className="mt-4 text-xs text-amber-400">{retryStatus}</p>}<button onClick={handleCancelGeneration} className="mt-6 px-4 py-2 text-sm rounded-lg border border-gray-600 text-gray-300 hover:bg-gray-700">Cancel</button></div> : error ? <div role="alert" className="text-center text-red-400 p-8"><h3 className="text-xl font-bold">{errorTitles[errorCategory]}</h3><p className="mt-2 text-sm max-w-md">{error}</p>{errorCategory === 'safety' ? <button onClick={() => document.getElementById('prompt-input')?.focus()} className="mt-6 px-5 py-2.5 bg-amber-600 text-gray-900 rounded-lg font-semibold hover:bg-amber-500">Edit Prompt</button> : errorCategory !== 'auth' && <button onClick={handleGenerate} className="mt-6 px-5 py-2.5 bg-amber-600 text-gray-900 rounded-lg font-semibold hover:bg-amber-500">Try Again</button>}</div> : isMasking && rawImageUrl ? <MaskEditor imageUrl={rawImageUrl} isApplying={isInpainting} error={inpaintError} onApply={handleInpaint} onCancel={() => setIsMasking(false)} onCancelApply={() => cancelAction('inpaint')} /> : isComparingVariants ? <VariantGrid variants={variants} selectedId={selectedVariantId} onPick={handlePickVariant} onToggleFavourite={handleToggleFavourite} onDiscard={handleDiscardVariant} /> : finalImageUrl ? (<div className="w-full text-center flex flex-col items-center h-full p-4"><div className={`w-full flex-1 flex items-center justify-center`}><div className="relative inline-block max-w-full"><img src={finalImageUrl} alt="Generated thumbnail" className="block max-w-full max-h-[70vh] object-contain rounded-lg shadow-2xl" /><LayerOverlay layers={textLayers} selectedId={selectedLayerId} showGuides={showGuides} onSelect={setSelectedLayerId} onMove={handleMoveLayer} /></div></div><div className="mt-6 flex flex-wrap items-center justify-center gap-3">{variants.length > 1 && <button onClick={() => setIsComparingVariants(true)} className="inline-flex items-center justify-center gap-2 bg-gray-700 text-gray-200 font-semibold py-3 px-6 rounded-lg border border-gray-600 hover:bg-gray-600">Compare Variants ({variants.length})</button>}<button onClick={() => { setInpaintError(null); setIsMasking(true); }} disabled={isRefining} className="inline-flex items-center justify-center gap-2 bg-gray-700 text-gray-200 font-semibold py-3 px-6 rounded-lg border border-gray-600 hover:bg-gray-600 disabled:opacity-50">Edit Region</button><button onClick={handleDownload} className="inline-flex items-center justify-center gap-2 bg-green-600 text-white font-bold py-3 px-8 rounded-lg shadow-md hover:bg-green-500 transform hover:scale-105"><svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>Download</button></div><ExportPanel isExporting={isExporting} results={exportResults} onExport={handleExport} onExportAll={handleExportAll} /><AnalysisPanel analysis={analysis?.result ?? null} isStale={!!analysis && analysis.imageUrl !== finalImageUrl} isAnalyzing={isAnalyzing} critique={critique && critique.imageUrl === finalImageUrl ? critique.result : null} isCritiquing={isCritiquing} error={analysisError} onAnalyze={handleAnalyze} onCritique={handleCritique} onCancelCritique={() => cancelAction('critique')} />{activeTree && <RefineChat tree={activeTree} isRefining={isRefining} error={refineError} onRefine={handleRefine} onCancel={() => cancelAction('refine')} onUndo={() => updateActiveTree(versionTree.undo)} onRedo={() => updateActiveTree(versionTree.redo)} onCheckout={(id) => updateActiveTree((tree) => versionTree.checkout(tree, id))} />}</div>) : variants.length > 1 ? <VariantGrid variants={variants} selectedId={selectedVariantId} onPick={handlePickVariant} onToggleFavourite={handleToggleFavourite} onDiscard={handleDiscardVariant} /> : (<div className="text-center text-gray-500 p-8"><svg xmlns="http://www.w3.org/2000/svg" className="mx-auto h-24 w-24 opacity-20" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M4 3.25a.75.75 0 01.75-.75h14.5a.75.75 0 01.75.75v17.5a.75.75 0 01-.75.75H4.75a.75.75 0 01-.75-.75V3.25z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M9 7.75h6m-6 4.5h6m-6 4.5h3" /></svg><p className="mt-6 text-2xl font-serif text-gray-400">Your Masterpiece Awaits</p><p className="mt-2 text-gray-500">Describe your vision and let the AI bring it to life.</p></div>)}
                         </div>
                     </div>
                 </div>
             </main>
+            <HistoryPanel
+                isOpen={isHistoryOpen}
+                records={history}
+                projects={projects}
+                activeProjectId={activeProjectId}
+                onClose={() => setIsHistoryOpen(false)}
+                onSetActiveProject={setActiveProjectId}
+                onCreateProject={handleCreateProject}
+                onDeleteProject={handleDeleteProject}
+                onRestore={restoreRecipe}
+                onRegenerate={handleRegenerate}
+                onAssign={handleAssignProject}
+                onDelete={handleDeleteGeneration}
+            />
+            <BrandKitManager
+                isOpen={isBrandKitOpen}
+                kits={kits}
+                activeKitId={activeKitId}
+                onClose={() => setIsBrandKitOpen(false)}
+                onSave={handleSaveBrandKit}
+                onDelete={handleDeleteBrandKit}
+                onImport={handleImportBrandKit}
+                onExport={handleExportBrandKit}
+            />
+            {pendingUploads.length > 0 && (
+                <UploadPreprocessor
+                    file={pendingUploads[0]}
+                    queuedCount={pendingUploads.length - 1}
+                    onAdd={handleAddProcessedReference}
+                    onSkip={() => setPendingUploads((current) => current.slice(1))}
+                    onCancel={() => setPendingUploads([])}
+                />
+            )}
         </div>
     );
 };
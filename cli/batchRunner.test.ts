@@ -0,0 +1,70 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { setCanvasPlatform } from "../services/canvasPlatform";
+import { setImageProvider } from "../services/geminiService";
+import { createMockProvider } from "../services/mockProvider";
+import { BatchEvent, BatchOptions, runBatch } from "./batchRunner";
+import { BatchJob } from "./manifest";
+import { nodeCanvasPlatform } from "./nodeCanvas";
+
+const job = (id: string, prompt: string): BatchJob => ({
+    id,
+    title: id,
+    prompt,
+    negativePrompt: '',
+    style: '',
+    aspectRatio: '16:9',
+    references: [],
+    presets: ['youtube'],
+    format: null,
+    headline: null,
+});
+
+describe('runBatch', () => {
+    let outDir: string;
+    beforeAll(() => {
+        setCanvasPlatform(nodeCanvasPlatform);
+        setImageProvider(createMockProvider({ latencyMs: 0 }));
+    });
+    afterAll(() => {
+        setCanvasPlatform(null);
+        setImageProvider(null);
+    });
+    beforeEach(async () => { outDir = await mkdtemp(path.join(tmpdir(), 'batch-')); });
+    afterEach(async () => { await rm(outDir, { recursive: true, force: true }); });
+
+    /** Runs the batch and returns the events as `type:id` strings, in order. */
+    const run = async (jobs: BatchJob[], options: Partial<BatchOptions> = {}) => {
+        const events: string[] = [];
+        const onEvent = (event: BatchEvent) => { events.push(`${event.type}:${event.job.id}`); };
+        const progress = await runBatch(jobs, { outDir, concurrency: 1, retryFailed: false, onEvent, ...options });
+        return { events, progress };
+    };
+
+    it('records finished and failed jobs in the progress file', async () => {
+        const { progress } = await run([job('rocket', 'a rocket'), job('blocked', 'a rocket [fail:safety]')]);
+        expect(progress.jobs.rocket).toMatchObject({ status: 'done', files: ['rocket/rocket-source.svg', 'rocket/rocket-youtube.jpg', 'rocket/rocket.json'] });
+        expect(progress.jobs.blocked).toMatchObject({ status: 'failed', category: 'safety', files: [] });
+        expect(JSON.parse(await readFile(path.join(outDir, '.batch-progress.json'), 'utf8'))).toEqual(progress);
+    });
+
+    it('skips finished and failed jobs when resumed', async () => {
+        const jobs = [job('rocket', 'a rocket'), job('blocked', 'a rocket [fail:safety]')];
+        await run(jobs);
+        const { events } = await run([...jobs, job('new', 'a new rocket')]);
+        expect(events).toEqual(['skip:rocket', 'skip:blocked', 'start:new', 'done:new']);
+    });
+
+    it('retries only the failed jobs when asked to', async () => {
+        await run([job('rocket', 'a rocket'), job('blocked', 'a rocket [fail:safety]')]);
+        const before = JSON.parse(await readFile(path.join(outDir, '.batch-progress.json'), 'utf8'));
+
+        // The prompt was fixed in the manifest before the re-run.
+        const { events, progress } = await run([job('rocket', 'a rocket'), job('blocked', 'a rocket')], { retryFailed: true });
+        expect(events).toEqual(['skip:rocket', 'start:blocked', 'done:blocked']);
+        expect(progress.jobs.blocked.status).toBe('done');
+        expect(progress.jobs.rocket).toEqual(before.jobs.rocket);
+    });
+});
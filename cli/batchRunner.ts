@@ -0,0 +1,198 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { InlineReference, TextLayer } from "../types";
+import { ErrorCategory, GenerationError, generateThumbnails, getImageProvider, stylePrompt } from "../services/geminiService";
+import { defaultFit } from "../services/canvasRenderer";
+import { exportForPreset, exportPresets } from "../services/exporter";
+import { createTextLayer } from "../services/textLayers";
+import { BatchJob } from "./manifest";
+
+const PROGRESS_FILE = '.batch-progress.json';
+const PROGRESS_VERSION = 1;
+
+export type JobRecord = {
+    status: 'done' | 'failed';
+    finishedAt: string; // ISO 8601
+    files: string[]; // relative to the output folder
+    error?: string;
+    category?: ErrorCategory;
+};
+
+export type BatchProgress = {
+    version: number;
+    jobs: Record<string, JobRecord>;
+};
+
+export type BatchEvent =
+    | { type: 'skip'; job: BatchJob }
+    | { type: 'start'; job: BatchJob }
+    | { type: 'retry'; job: BatchJob; attempt: number; delayMs: number; category: ErrorCategory }
+    | { type: 'done'; job: BatchJob; record: JobRecord }
+    | { type: 'failed'; job: BatchJob; record: JobRecord };
+
+export type BatchOptions = {
+    outDir: string;
+    concurrency: number;
+    /** Per-attempt timeout for model calls; the library default when unset. */
+    timeoutMs?: number;
+    /** Re-run jobs that failed last time; finished jobs are always skipped. */
+    retryFailed: boolean;
+    signal?: AbortSignal;
+    onEvent?: (event: BatchEvent) => void;
+};
+
+const mimeExtensions: Record<string, string> = {
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/webp': 'webp',
+    'image/svg+xml': 'svg',
+};
+
+const loadProgress = async (outDir: string): Promise<BatchProgress> => {
+    try {
+        const parsed = JSON.parse(await readFile(path.join(outDir, PROGRESS_FILE), 'utf8')) as BatchProgress;
+        if (parsed.version === PROGRESS_VERSION && parsed.jobs) return parsed;
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw new Error(`Could not read ${PROGRESS_FILE}: ${(error as Error).message}`);
+    }
+    return { version: PROGRESS_VERSION, jobs: {} };
+};
+
+/** Writes to a temporary file first so an interrupted run never leaves half a progress file. */
+const writeJsonAtomic = async (file: string, value: unknown): Promise<void> => {
+    const temporary = `${file}.${process.pid}.tmp`;
+    await writeFile(temporary, `${JSON.stringify(value, null, 2)}\n`);
+    await rename(temporary, file);
+};
+
+const readReference = async ({ path: file, role }: BatchJob['references'][number]): Promise<InlineReference> => {
+    const extension = path.extname(file).slice(1).toLowerCase();
+    const mimeType = Object.keys(mimeExtensions).find((mime) => mimeExtensions[mime] === extension || (extension === 'jpeg' && mime === 'image/jpeg'));
+    if (!mimeType) throw new Error(`Unsupported reference image type: ${file}`);
+    return { data: (await readFile(file)).toString('base64'), mimeType, role };
+};
+
+const dataUrlToBytes = (dataUrl: string): { bytes: Buffer; mimeType: string } => {
+    const [header, data] = dataUrl.split(',');
+    return { bytes: Buffer.from(data, 'base64'), mimeType: header.match(/^data:([^;]+)/)?.[1] ?? 'image/png' };
+};
+
+/** Generates one job's image, exports every requested preset and writes the metadata sidecar. */
+const runJob = async (job: BatchJob, options: BatchOptions): Promise<string[]> => {
+    const jobDir = path.join(options.outDir, job.id);
+    await mkdir(jobDir, { recursive: true });
+
+    const references = await Promise.all(job.references.map(readReference));
+    const prompt = stylePrompt(job.prompt, job.style);
+    const outcome = await generateThumbnails(prompt, job.negativePrompt, job.aspectRatio, references, 1, {
+        signal: options.signal,
+        timeoutMs: options.timeoutMs,
+        onRetry: ({ attempt, delayMs, category }) => options.onEvent?.({ type: 'retry', job, attempt, delayMs, category }),
+    });
+    const [raw] = outcome.images;
+
+    const files: string[] = [];
+    const source = dataUrlToBytes(raw);
+    const sourceName = `${job.id}-source.${mimeExtensions[source.mimeType] ?? 'bin'}`;
+    await writeFile(path.join(jobDir, sourceName), source.bytes);
+    files.push(sourceName);
+
+    const layers: TextLayer[] = job.headline ? [createTextLayer({ text: job.headline })] : [];
+    const exports = [];
+    // Sequential for the same reason as in the app: large canvases add up in memory.
+    for (const presetId of job.presets) {
+        const preset = exportPresets.find((p) => p.id === presetId)!;
+        const result = await exportForPreset(raw, { layers, fit: defaultFit }, preset, job.format ?? preset.format, job.id);
+        await writeFile(path.join(jobDir, result.filename), new Uint8Array(await result.blob.arrayBuffer()));
+        files.push(result.filename);
+        exports.push({
+            preset: preset.id,
+            file: result.filename,
+            width: preset.width,
+            height: preset.height,
+            format: result.format,
+            bytes: result.blob.size,
+            quality: result.quality,
+            withinLimit: result.withinLimit,
+        });
+    }
+
+    const sidecarName = `${job.id}.json`;
+    await writeJsonAtomic(path.join(jobDir, sidecarName), {
+        id: job.id,
+        title: job.title,
+        recipe: {
+            prompt: job.prompt,
+            fullPrompt: prompt,
+            negativePrompt: job.negativePrompt,
+            style: job.style,
+            aspectRatio: job.aspectRatio,
+            references: job.references,
+            headline: job.headline,
+        },
+        provider: getImageProvider().name,
+        model: outcome.model,
+        usedFallback: outcome.usedFallback,
+        source: sourceName,
+        exports,
+        createdAt: new Date().toISOString(),
+    });
+    files.push(sidecarName);
+    return files.map((file) => path.join(job.id, file));
+};
+
+/**
+ * Runs the jobs with at most `concurrency` in flight. Progress is saved after
+ * every job, so an interrupted batch picks up where it stopped when re-run
+ * with the same output folder.
+ */
+export const runBatch = async (jobs: BatchJob[], options: BatchOptions): Promise<BatchProgress> => {
+    await mkdir(options.outDir, { recursive: true });
+    const progress = await loadProgress(options.outDir);
+    const progressFile = path.join(options.outDir, PROGRESS_FILE);
+
+    const pending = jobs.filter((job) => {
+        const previous = progress.jobs[job.id];
+        const skip = previous?.status === 'done' || (previous?.status === 'failed' && !options.retryFailed);
+        if (skip) options.onEvent?.({ type: 'skip', job });
+        return !skip;
+    });
+
+    // Progress writes are chained so concurrent jobs never write the file at the same time.
+    let saving = Promise.resolve();
+    const record = (job: BatchJob, entry: JobRecord) => {
+        progress.jobs[job.id] = entry;
+        saving = saving.then(() => writeJsonAtomic(progressFile, progress));
+        return saving;
+    };
+
+    let next = 0;
+    const worker = async () => {
+        while (next < pending.length && !options.signal?.aborted) {
+            const job = pending[next++];
+            options.onEvent?.({ type: 'start', job });
+            try {
+                const files = await runJob(job, options);
+                const entry: JobRecord = { status: 'done', finishedAt: new Date().toISOString(), files };
+                await record(job, entry);
+                options.onEvent?.({ type: 'done', job, record: entry });
+            } catch (error) {
+                // A cancelled job is left unrecorded so the next run starts it again.
+                if (options.signal?.aborted) return;
+                const entry: JobRecord = {
+                    status: 'failed',
+                    finishedAt: new Date().toISOString(),
+                    files: [],
+                    error: error instanceof Error ? error.message : String(error),
+                    category: error instanceof GenerationError ? error.category : undefined,
+                };
+                await record(job, entry);
+                options.onEvent?.({ type: 'failed', job, record: entry });
+            }
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(options.concurrency, pending.length)) }, worker));
+    await saving;
+    return progress;
+};
@@ -0,0 +1,121 @@
+import { existsSync } from "node:fs";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { setCanvasPlatform } from "../services/canvasPlatform";
+import { layerFonts } from "../services/textLayers";
+import { runBatch } from "./batchRunner";
+import { loadManifest } from "./manifest";
+import { hasFontFamily, nodeCanvasPlatform, registerFonts } from "./nodeCanvas";
+
+const usage = `Usage: npm run batch -- <manifest.csv|manifest.json> [options]
+
+Options:
+  --out <dir>          Output folder (default: ./thumbnails)
+  --concurrency <n>    Jobs to run at the same time (default: 2)
+  --provider <name>    gemini or mock (default: as configured in .env.local)
+  --fonts <dir>        Folder of .ttf/.otf files for headline text layers
+  --timeout <seconds>  Per-attempt request timeout (default: REQUEST_TIMEOUT_SECONDS or 90)
+  --retry-failed       Also re-run jobs that failed in an earlier run
+  -h, --help           Show this help
+
+Manifest columns: id, title, prompt, negative_prompt, style, aspect_ratio,
+reference_image (paths separated by ";", optionally "role:path"), presets
+(e.g. "youtube;x-card"), format (jpg, png or webp) and headline.`;
+
+const main = async (): Promise<number> => {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            out: { type: 'string', default: 'thumbnails' },
+            concurrency: { type: 'string', default: '2' },
+            provider: { type: 'string' },
+            fonts: { type: 'string' },
+            timeout: { type: 'string' },
+            'retry-failed': { type: 'boolean', default: false },
+            help: { type: 'boolean', short: 'h', default: false },
+        },
+    });
+    if (values.help || positionals.length !== 1) {
+        console.log(usage);
+        return values.help ? 0 : 1;
+    }
+
+    // Same configuration as the web app, which Vite reads from .env.local.
+    if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+    process.env.API_KEY ||= process.env.GEMINI_API_KEY;
+    if (values.provider) process.env.IMAGE_PROVIDER = values.provider;
+
+    const concurrency = Number(values.concurrency);
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+        console.error('--concurrency must be a positive whole number.');
+        return 1;
+    }
+    // Read here rather than by the library default: .env.local is only loaded above.
+    const timeoutSeconds = Number(values.timeout ?? (process.env.REQUEST_TIMEOUT_SECONDS || 90));
+    if (!Number.isFinite(timeoutSeconds) || timeoutSeconds <= 0) {
+        console.error('--timeout must be a positive number of seconds.');
+        return 1;
+    }
+
+    setCanvasPlatform(nodeCanvasPlatform);
+    if (values.fonts) {
+        console.log(`Loaded ${registerFonts(values.fonts)} font file(s) from ${values.fonts}.`);
+    }
+
+    const jobs = await loadManifest(positionals[0]);
+    if (jobs.some((job) => job.headline) && !hasFontFamily(layerFonts[0])) {
+        console.warn(`Warning: the headline font "${layerFonts[0]}" is not installed; pass --fonts to render headlines as in the app.`);
+    }
+
+    const outDir = path.resolve(values.out);
+    const controller = new AbortController();
+    process.once('SIGINT', () => {
+        console.log('\nStopping. Finished jobs are saved; run the same command again to resume.');
+        controller.abort();
+    });
+
+    let finished = 0;
+    const progress = await runBatch(jobs, {
+        outDir,
+        concurrency,
+        timeoutMs: timeoutSeconds * 1000,
+        retryFailed: values['retry-failed'],
+        signal: controller.signal,
+        onEvent: (event) => {
+            const label = `${event.job.id}${event.job.title ? ` (${event.job.title})` : ''}`;
+            switch (event.type) {
+                case 'skip':
+                    console.log(`skip     ${label}: already processed`);
+                    break;
+                case 'start':
+                    console.log(`start    ${label}`);
+                    break;
+                case 'retry':
+                    console.log(`retry    ${label}: ${event.category}, attempt ${event.attempt + 1} in ${Math.ceil(event.delayMs / 1000)}s`);
+                    break;
+                case 'done':
+                    console.log(`done     ${label} [${++finished}] -> ${event.record.files.length} file(s)`);
+                    break;
+                case 'failed':
+                    console.error(`failed   ${label} [${++finished}]: ${event.record.error}`);
+                    break;
+            }
+        },
+    });
+
+    const records = jobs.map((job) => progress.jobs[job.id]);
+    const done = records.filter((r) => r?.status === 'done').length;
+    const failed = records.filter((r) => r?.status === 'failed').length;
+    const remaining = jobs.length - done - failed;
+    console.log(`\n${done} done, ${failed} failed${remaining ? `, ${remaining} not run` : ''}. Output: ${outDir}`);
+    if (failed > 0 && !values['retry-failed']) console.log('Re-run with --retry-failed to try the failed jobs again.');
+    return failed > 0 || remaining > 0 ? 1 : 0;
+};
+
+main().then(
+    (code) => { process.exitCode = code; },
+    (error) => {
+        console.error(error instanceof Error ? error.message : error);
+        process.exitCode = 1;
+    }
+);
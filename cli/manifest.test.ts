@@ -0,0 +1,63 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { loadManifest, parseCsv } from "./manifest";
+
+describe('parseCsv', () => {
+    it('handles quotes, escaped quotes and newlines inside fields', () => {
+        expect(parseCsv('id,prompt\r\n1,"A ""bold"" title, twice"\n2,"two\nlines"')).toEqual([
+            ['id', 'prompt'],
+            ['1', 'A "bold" title, twice'],
+            ['2', 'two\nlines'],
+        ]);
+    });
+
+    it('drops blank lines and keeps a final row without a newline', () => {
+        expect(parseCsv('a,b\n\n , \n1,2')).toEqual([['a', 'b'], ['1', '2']]);
+    });
+});
+
+describe('loadManifest', () => {
+    let dir: string;
+    beforeEach(async () => { dir = await mkdtemp(path.join(tmpdir(), 'manifest-')); });
+    afterEach(async () => { await rm(dir, { recursive: true, force: true }); });
+
+    it('normalises columns, roles and ids', async () => {
+        const file = path.join(dir, 'videos.csv');
+        await writeFile(file, 'Title,Prompt,Negative Prompt,reference_image\nMy Video,Rocket,,logo:brand/logo.png;face.jpg\nMy Video,Rocket again,blurry,\n');
+        const jobs = await loadManifest(file);
+        expect(jobs.map((job) => job.id)).toEqual(['my-video', 'my-video-2']);
+        expect(jobs[0].negativePrompt).toBe('');
+        expect(jobs[0].references).toEqual([
+            { path: path.join(dir, 'brand/logo.png'), role: 'logo' },
+            { path: path.join(dir, 'face.jpg'), role: 'subject' },
+        ]);
+        expect(jobs[1]).toMatchObject({ aspectRatio: '16:9', presets: ['youtube'], format: null });
+    });
+
+    it('never reuses an id, explicit or generated', async () => {
+        const file = path.join(dir, 'videos.json');
+        await writeFile(file, JSON.stringify([
+            { id: 'foo-2', prompt: 'a' },
+            { title: 'foo', prompt: 'b' },
+            { title: 'foo', prompt: 'c' },
+        ]));
+        expect((await loadManifest(file)).map((job) => job.id)).toEqual(['foo-2', 'foo', 'foo-3']);
+
+        // An explicit id later in the file still keeps it.
+        await writeFile(file, JSON.stringify([
+            { title: 'foo', prompt: 'a' },
+            { title: 'foo', prompt: 'b' },
+            { id: 'foo-2', prompt: 'c' },
+            { id: 'foo', prompt: 'd' },
+        ]));
+        expect((await loadManifest(file)).map((job) => job.id)).toEqual(['foo-3', 'foo-4', 'foo-2', 'foo']);
+    });
+
+    it('names the job that has a problem', async () => {
+        const file = path.join(dir, 'videos.json');
+        await writeFile(file, JSON.stringify({ jobs: [{ prompt: 'ok' }, { prompt: 'bad', aspect_ratio: '2:1' }] }));
+        await expect(loadManifest(file)).rejects.toThrow('Job 2: unknown aspect ratio "2:1"');
+    });
+});
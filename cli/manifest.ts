@@ -0,0 +1,179 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { AspectRatio, ReferenceRole } from "../types";
+import { ExportFormat, exportPresets } from "../services/exporter";
+
+export type BatchReference = {
+    path: string; // absolute
+    role: ReferenceRole;
+};
+
+/** One video's thumbnail, as described by a manifest row. */
+export type BatchJob = {
+    id: string; // unique within the manifest; names the output folder and the progress entry
+    title: string;
+    prompt: string;
+    negativePrompt: string;
+    style: string;
+    aspectRatio: AspectRatio;
+    references: BatchReference[];
+    presets: string[];
+    format: ExportFormat | null; // null keeps each preset's own format
+    headline: string | null;
+};
+
+const aspectRatios: AspectRatio[] = ['16:9', '1:1', '9:16', '4:3', '3:4'];
+const referenceRoles: ReferenceRole[] = ['subject', 'style', 'logo', 'background'];
+const formats: Record<string, ExportFormat> = { jpg: 'image/jpeg', jpeg: 'image/jpeg', png: 'image/png', webp: 'image/webp' };
+const DEFAULT_NEGATIVE_PROMPT = 'blurry, deformed, watermark';
+
+/** Minimal RFC 4180 parser: quoted fields, doubled quotes and newlines inside quotes. */
+export const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i];
+        if (inQuotes) {
+            if (c === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (c === '"') {
+                inQuotes = false;
+            } else {
+                field += c;
+            }
+        } else if (c === '"') {
+            inQuotes = true;
+        } else if (c === ',') {
+            row.push(field);
+            field = '';
+        } else if (c === '\n' || c === '\r') {
+            if (c === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += c;
+        }
+    }
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter((r) => r.some((value) => value.trim()));
+};
+
+// "negative_prompt", "Negative Prompt" and "negativePrompt" all mean the same column.
+const normalizeKey = (key: string): string => key.toLowerCase().replace(/[\s_-]/g, '');
+
+const slugify = (value: string): string =>
+    value.toLowerCase().normalize('NFKD').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60);
+
+const asList = (value: unknown): unknown[] => {
+    if (Array.isArray(value)) return value;
+    if (typeof value === 'string') return value.split(/[;|]/).map((item) => item.trim()).filter(Boolean);
+    return [];
+};
+
+const asText = (value: unknown): string => typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '';
+
+const parseReference = (value: unknown, baseDir: string, where: string): BatchReference => {
+    let role: ReferenceRole = 'subject';
+    let file: string;
+    if (typeof value === 'object' && value !== null) {
+        const entry = value as { path?: unknown; role?: unknown };
+        file = asText(entry.path);
+        if (entry.role !== undefined) {
+            if (!referenceRoles.includes(entry.role as ReferenceRole)) throw new Error(`${where}: unknown reference role "${String(entry.role)}".`);
+            role = entry.role as ReferenceRole;
+        }
+    } else {
+        file = asText(value);
+        // "logo:assets/logo.png"; a Windows drive letter is not a role.
+        const prefix = file.match(/^([a-z]+):(.+)$/i);
+        if (prefix && referenceRoles.includes(prefix[1].toLowerCase() as ReferenceRole)) {
+            role = prefix[1].toLowerCase() as ReferenceRole;
+            file = prefix[2];
+        }
+    }
+    if (!file) throw new Error(`${where}: empty reference image path.`);
+    return { path: path.resolve(baseDir, file), role };
+};
+
+const toJob = (raw: Record<string, unknown>, index: number, baseDir: string): Omit<BatchJob, 'id'> & { id: string | null } => {
+    const fields = Object.fromEntries(Object.entries(raw).map(([key, value]) => [normalizeKey(key), value]));
+    const where = `Job ${index + 1}`;
+
+    const title = asText(fields.title);
+    const prompt = asText(fields.prompt);
+    if (!prompt) throw new Error(`${where}: "prompt" is required.`);
+
+    const aspectRatio = (asText(fields.aspectratio) || '16:9') as AspectRatio;
+    if (!aspectRatios.includes(aspectRatio)) throw new Error(`${where}: unknown aspect ratio "${aspectRatio}". Expected one of ${aspectRatios.join(', ')}.`);
+
+    const presets = asList(fields.presets).map(asText);
+    const unknownPreset = presets.find((id) => !exportPresets.some((preset) => preset.id === id));
+    if (unknownPreset) throw new Error(`${where}: unknown preset "${unknownPreset}". Expected one of ${exportPresets.map((p) => p.id).join(', ')}.`);
+
+    const formatName = asText(fields.format).toLowerCase();
+    if (formatName && !formats[formatName]) throw new Error(`${where}: unknown format "${formatName}". Expected jpg, png or webp.`);
+
+    const references = asList(fields.references ?? fields.referenceimages ?? fields.referenceimage)
+        .map((value) => parseReference(value, baseDir, where));
+
+    return {
+        id: asText(fields.id) || null,
+        title,
+        prompt,
+        negativePrompt: fields.negativeprompt === undefined ? DEFAULT_NEGATIVE_PROMPT : asText(fields.negativeprompt),
+        style: asText(fields.style) || 'Cinematic',
+        aspectRatio,
+        references,
+        presets: presets.length > 0 ? presets : ['youtube'],
+        format: formatName ? formats[formatName] : null,
+        headline: asText(fields.headline) || null,
+    };
+};
+
+/**
+ * Gives every job a unique, filesystem-safe id, derived from the title when none is set.
+ * Explicit ids win: a generated `-2` suffix never takes an id another row asked for.
+ */
+const assignIds = (jobs: ReturnType<typeof toJob>[]): BatchJob[] => {
+    const requested = new Set(jobs.map((job) => slugify(job.id ?? '')).filter(Boolean));
+    const taken = new Set<string>();
+    return jobs.map((job, index) => {
+        const own = slugify(job.id ?? '');
+        const base = own || slugify(job.title) || `job-${index + 1}`;
+        const isFree = (id: string) => !taken.has(id) && (id === own || !requested.has(id));
+        let id = base;
+        for (let count = 2; !isFree(id); count++) id = `${base}-${count}`;
+        taken.add(id);
+        return { ...job, id };
+    });
+};
+
+/**
+ * Reads a CSV (header row first) or JSON (an array of jobs, or `{ "jobs": [...] }`)
+ * manifest. Relative reference paths resolve against the manifest's folder.
+ */
+export const loadManifest = async (manifestPath: string): Promise<BatchJob[]> => {
+    const text = await readFile(manifestPath, 'utf8');
+    const baseDir = path.dirname(path.resolve(manifestPath));
+
+    let rows: Record<string, unknown>[];
+    if (path.extname(manifestPath).toLowerCase() === '.json') {
+        const parsed = JSON.parse(text);
+        const list = Array.isArray(parsed) ? parsed : parsed?.jobs;
+        if (!Array.isArray(list)) throw new Error('A JSON manifest must be an array of jobs or an object with a "jobs" array.');
+        rows = list;
+    } else {
+        const [header, ...records] = parseCsv(text.replace(/^\uFEFF/, ''));
+        if (!header) throw new Error('The CSV manifest is empty.');
+        rows = records.map((record) => Object.fromEntries(header.map((key, i) => [key.trim(), record[i] ?? ''])));
+    }
+    return assignIds(rows.map((row, index) => toJob(row, index, baseDir)));
+};
@@ -0,0 +1,30 @@
+import { Canvas, createCanvas, GlobalFonts, loadImage } from "@napi-rs/canvas";
+import { CanvasPlatform } from "../services/canvasPlatform";
+
+const encoders = {
+    'image/jpeg': 'jpeg',
+    'image/webp': 'webp',
+    'image/png': 'png',
+} as const;
+
+/**
+ * Canvas primitives backed by @napi-rs/canvas (Skia). Its canvas and image
+ * objects implement the subset of the DOM API the renderer uses, so they are
+ * passed through as their DOM counterparts.
+ */
+export const nodeCanvasPlatform: CanvasPlatform = {
+    createCanvas: (width, height) => createCanvas(width, height) as unknown as HTMLCanvasElement,
+    loadImage: async (src) => (await loadImage(src)) as unknown as HTMLImageElement,
+    toBlob: async (canvas, format, quality = 0.92) => {
+        const encoder = encoders[format as keyof typeof encoders];
+        if (!encoder) throw new Error(`Cannot encode ${format}.`);
+        const target = canvas as unknown as Canvas;
+        const bytes = encoder === 'png' ? await target.encode('png') : await target.encode(encoder, Math.round(quality * 100));
+        return new Blob([new Uint8Array(bytes)], { type: format });
+    },
+};
+
+/** Registers every font file in `dir` so text layers render with their real faces. Returns the number loaded. */
+export const registerFonts = (dir: string): number => GlobalFonts.loadFontsFromDir(dir);
+
+export const hasFontFamily = (family: string): boolean => GlobalFonts.has(family);
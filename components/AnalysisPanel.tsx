@@ -0,0 +1,82 @@
+import React from 'react';
+import { ThumbnailCritique } from '../types';
+import { MetricStatus, ThumbnailAnalysis } from '../services/thumbnailAnalyzer';
+
+type AnalysisPanelProps = {
+    analysis: ThumbnailAnalysis | null;
+    isStale: boolean;
+    isAnalyzing: boolean;
+    critique: ThumbnailCritique | null;
+    isCritiquing: boolean;
+    error: string | null;
+    onAnalyze: () => void;
+    onCritique: () => void;
+    onCancelCritique: () => void;
+};
+
+const statusStyles: Record<MetricStatus, string> = {
+    good: 'bg-green-500',
+    warn: 'bg-amber-500',
+    bad: 'bg-red-500',
+    unknown: 'bg-gray-500',
+};
+
+const scoreColour = (score: number): string => score >= 70 ? 'text-green-400' : score >= 40 ? 'text-amber-400' : 'text-red-400';
+
+const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ analysis, isStale, isAnalyzing, critique, isCritiquing, error, onAnalyze, onCritique, onCancelCritique }) => (
+    <div className="w-full max-w-2xl mt-4 rounded-lg border border-gray-700 bg-gray-800 p-3 text-left">
+        <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-semibold text-gray-300">
+                Readability check
+                {analysis?.overall != null && !isStale && <span className={`ml-2 ${scoreColour(analysis.overall)}`}>{analysis.overall}/100</span>}
+            </h3>
+            <div className="flex items-center gap-2">
+                <button onClick={onAnalyze} disabled={isAnalyzing} className="px-2 py-1 text-xs rounded-md border border-gray-600 text-gray-300 hover:bg-gray-700 disabled:opacity-40">{isAnalyzing ? 'Analyzing...' : analysis ? 'Re-analyze' : 'Analyze'}</button>
+                <button onClick={onCritique} disabled={!analysis || isStale || isCritiquing} className="px-2 py-1 text-xs rounded-md border border-gray-600 text-gray-300 hover:bg-gray-700 disabled:opacity-40" title="Ask the AI for a scored critique">{isCritiquing ? 'Asking AI...' : 'AI critique'}</button>
+                {isCritiquing && <button onClick={onCancelCritique} className="px-2 py-1 text-xs text-gray-400 hover:text-red-400">Cancel</button>}
+            </div>
+        </div>
+
+        {error && <p role="alert" className="mb-2 text-xs text-red-400">{error}</p>}
+        {isStale && analysis && <p className="mb-2 text-xs text-amber-400">The thumbnail has changed since this check. Re-analyze to update it.</p>}
+
+        {analysis && (
+            <>
+                <div className="flex flex-wrap items-end gap-4 mb-3">
+                    {analysis.previews.map(({ size, url }) => (
+                        <figure key={size.id}>
+                            <div className="relative" style={{ width: size.width, height: size.height }}>
+                                <img src={url} alt={`${size.label} preview`} width={size.width} height={size.height} className="rounded-md" />
+                                <span className="absolute bottom-1 right-1 rounded-sm bg-black/80 px-1 text-[10px] font-semibold text-white">12:34</span>
+                            </div>
+                            <figcaption className="mt-1 text-[11px] text-gray-500">{size.label} · {size.width}×{size.height}</figcaption>
+                        </figure>
+                    ))}
+                </div>
+                <ul className="space-y-1.5">
+                    {analysis.metrics.map((m) => (
+                        <li key={m.id} className="flex items-start gap-2 text-xs">
+                            <span className={`mt-1 h-2 w-2 shrink-0 rounded-full ${statusStyles[m.status]}`} />
+                            <span className="w-28 shrink-0 font-semibold text-gray-300">{m.label}</span>
+                            <span className="w-28 shrink-0 text-gray-400">{m.value}</span>
+                            <span className="text-gray-500">{m.detail}</span>
+                        </li>
+                    ))}
+                </ul>
+            </>
+        )}
+
+        {critique && !isStale && (
+            <div className="mt-3 rounded-md bg-gray-900 p-3 text-xs">
+                <p className="text-gray-300"><span className={`font-semibold ${scoreColour(critique.score * 10)}`}>{critique.score.toFixed(1)}/10</span> — {critique.summary}</p>
+                {critique.suggestions.length > 0 && (
+                    <ol className="mt-2 list-decimal list-inside space-y-1 text-gray-400">
+                        {critique.suggestions.map((suggestion, i) => <li key={i}>{suggestion}</li>)}
+                    </ol>
+                )}
+            </div>
+        )}
+    </div>
+);
+
+export default AnalysisPanel;
@@ -0,0 +1,152 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BrandKit, UploadedImage, WatermarkPosition } from '../types';
+import { createBrandKit } from '../services/brandKits';
+import { prepareUpload } from '../services/imagePreprocessing';
+import { layerFonts } from '../services/textLayers';
+
+type BrandKitManagerProps = {
+    isOpen: boolean;
+    kits: BrandKit[];
+    activeKitId: string | null;
+    onClose: () => void;
+    onSave: (kit: BrandKit) => void;
+    onDelete: (id: string) => void;
+    onImport: (file: File) => void;
+    onExport: (kit: BrandKit) => void;
+};
+
+const inputClass = 'w-full bg-gray-900 border border-gray-700 rounded-md p-2 text-sm text-gray-200 placeholder-gray-500 focus:ring-2 focus:ring-amber-500 focus:border-amber-500';
+const labelClass = 'block text-xs font-semibold text-gray-400 mb-1';
+const positions: WatermarkPosition[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right'];
+
+const ImageField: React.FC<{ label: string; image: UploadedImage | null; onChange: (image: UploadedImage | null) => void }> = ({ label, image, onChange }) => {
+    const [isReading, setIsReading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        setIsReading(true);
+        setError(null);
+        try {
+            onChange(await prepareUpload(file));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not read the image.');
+        } finally {
+            setIsReading(false);
+        }
+    };
+
+    return (
+        <div>
+            <span className={labelClass}>{label}</span>
+            <div className="flex items-center gap-3">
+                {image ? <img src={image.data} alt={label} className="h-12 w-12 object-contain rounded-md bg-gray-900 border border-gray-700" /> : <div className="h-12 w-12 rounded-md border border-dashed border-gray-600" />}
+                <label className={`text-xs font-semibold text-amber-500 hover:text-amber-400 ${isReading ? 'opacity-50 cursor-wait' : 'cursor-pointer'}`}>
+                    {isReading ? 'Reading...' : image ? 'Replace' : 'Upload'}
+                    <input type="file" className="sr-only" accept="image/*" disabled={isReading} onChange={handleFile} />
+                </label>
+                {image && <button onClick={() => onChange(null)} className="text-xs text-gray-500 hover:text-red-400">Remove</button>}
+            </div>
+            {error && <p role="alert" className="mt-1 text-xs text-red-400">{error}</p>}
+        </div>
+    );
+};
+
+const BrandKitManager: React.FC<BrandKitManagerProps> = ({ isOpen, kits, activeKitId, onClose, onSave, onDelete, onImport, onExport }) => {
+    const [draft, setDraft] = useState<BrandKit | null>(null);
+    const importRef = useRef<HTMLInputElement>(null);
+
+    // Start on the active kit so "Manage" edits what is in use.
+    useEffect(() => {
+        if (isOpen) setDraft(kits.find((kit) => kit.id === activeKitId) ?? null);
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const update = (patch: Partial<BrandKit>) => setDraft((current) => current ? { ...current, ...patch } : current);
+    const isSaved = !!draft && kits.some((kit) => kit.id === draft.id);
+
+    return (
+        <div className="fixed inset-0 z-40 flex justify-end" role="dialog" aria-modal="true" aria-label="Brand kits">
+            <div className="absolute inset-0 bg-black/60" onClick={onClose} />
+            <aside className="relative w-full max-w-md h-full bg-gray-800 shadow-2xl flex flex-col">
+                <header className="flex items-center justify-between p-4 border-b border-gray-700">
+                    <h2 className="text-xl font-serif font-bold text-white">Brand Kits</h2>
+                    <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close brand kits">
+                        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+                    </button>
+                </header>
+
+                <div className="p-4 border-b border-gray-700 space-y-2">
+                    <div className="flex flex-wrap gap-2">
+                        {kits.map((kit) => (
+                            <button key={kit.id} onClick={() => setDraft(kit)} className={`px-3 py-1.5 text-sm rounded-md border ${draft?.id === kit.id ? 'bg-amber-600 font-semibold border-amber-500 text-white' : 'bg-gray-700 border-gray-600 hover:bg-gray-600'}`}>{kit.name}</button>
+                        ))}
+                    </div>
+                    <div className="flex gap-2">
+                        <button onClick={() => setDraft(createBrandKit())} className="px-3 py-1.5 text-sm font-semibold rounded-md border border-dashed border-gray-600 text-amber-500 hover:border-amber-500">+ New kit</button>
+                        <button onClick={() => importRef.current?.click()} className="px-3 py-1.5 text-sm rounded-md border border-gray-600 text-gray-300 hover:bg-gray-700">Import JSON</button>
+                        <input ref={importRef} type="file" accept="application/json,.json" className="sr-only" onChange={(e) => { const file = e.target.files?.[0]; if (file) onImport(file); e.target.value = ''; }} />
+                    </div>
+                </div>
+
+                {draft ? (
+                    <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                        <div>
+                            <label className={labelClass} htmlFor="brand-name">Name</label>
+                            <input id="brand-name" className={inputClass} value={draft.name} onChange={(e) => update({ name: e.target.value })} />
+                        </div>
+                        <div>
+                            <span className={labelClass}>Colour palette</span>
+                            <div className="flex flex-wrap items-center gap-2">
+                                {draft.palette.map((color, i) => (
+                                    <div key={i} className="relative group">
+                                        <input type="color" value={color} onChange={(e) => update({ palette: draft.palette.map((c, j) => j === i ? e.target.value : c) })} className="h-9 w-9 rounded border border-gray-700 bg-gray-900 cursor-pointer" aria-label={`Palette colour ${i + 1}`} />
+                                        <button onClick={() => update({ palette: draft.palette.filter((_, j) => j !== i) })} className="absolute -top-2 -right-2 hidden group-hover:block bg-red-600 rounded-full h-4 w-4 text-[10px] leading-4 text-white" aria-label="Remove colour">×</button>
+                                    </div>
+                                ))}
+                                {draft.palette.length < 6 && <button onClick={() => update({ palette: [...draft.palette, '#ffffff'] })} className="h-9 w-9 rounded border border-dashed border-gray-600 text-gray-400 hover:border-amber-500" aria-label="Add colour">+</button>}
+                            </div>
+                        </div>
+                        <div>
+                            <label className={labelClass} htmlFor="brand-tone">Tone</label>
+                            <input id="brand-tone" className={inputClass} placeholder="e.g., energetic, optimistic, high-tech" value={draft.tone} onChange={(e) => update({ tone: e.target.value })} />
+                        </div>
+                        <div>
+                            <label className={labelClass} htmlFor="brand-font">Headline font</label>
+                            <select id="brand-font" className={inputClass} value={draft.headlineFont} onChange={(e) => update({ headlineFont: e.target.value })}>
+                                {layerFonts.map((font) => <option key={font} value={font}>{font}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className={labelClass} htmlFor="brand-banned">Banned elements</label>
+                            <input id="brand-banned" className={inputClass} placeholder="Comma separated, e.g., competitor logos, alcohol" value={draft.bannedElements.join(', ')} onChange={(e) => update({ bannedElements: e.target.value.split(',').map((item) => item.trimStart()) })} onBlur={() => update({ bannedElements: draft.bannedElements.map((item) => item.trim()).filter(Boolean) })} />
+                        </div>
+                        <ImageField label="Recurring host photo" image={draft.hostPhoto} onChange={(hostPhoto) => update({ hostPhoto })} />
+                        <ImageField label="Logo watermark" image={draft.logo} onChange={(logo) => update({ logo })} />
+                        {draft.logo && (
+                            <div className="grid grid-cols-3 gap-2">
+                                <select className={inputClass} value={draft.logoPosition} onChange={(e) => update({ logoPosition: e.target.value as WatermarkPosition })} aria-label="Logo position">
+                                    {positions.map((p) => <option key={p} value={p}>{p}</option>)}
+                                </select>
+                                <label className="text-xs text-gray-400">Size {Math.round(draft.logoScale * 100)}%<input type="range" min={0.04} max={0.4} step={0.01} value={draft.logoScale} onChange={(e) => update({ logoScale: Number(e.target.value) })} className="w-full accent-amber-500" /></label>
+                                <label className="text-xs text-gray-400">Opacity {Math.round(draft.logoOpacity * 100)}%<input type="range" min={0.1} max={1} step={0.05} value={draft.logoOpacity} onChange={(e) => update({ logoOpacity: Number(e.target.value) })} className="w-full accent-amber-500" /></label>
+                            </div>
+                        )}
+                        <div className="flex flex-wrap gap-2 pt-2">
+                            <button onClick={() => onSave({ ...draft, name: draft.name.trim() || 'Untitled kit', bannedElements: draft.bannedElements.map((item) => item.trim()).filter(Boolean) })} className="px-4 py-2 text-sm font-semibold rounded-md bg-amber-600 text-gray-900 hover:bg-amber-500">Save</button>
+                            {isSaved && <button onClick={() => onExport(draft)} className="px-4 py-2 text-sm rounded-md border border-gray-600 text-gray-300 hover:bg-gray-700">Export JSON</button>}
+                            {isSaved && <button onClick={() => { if (window.confirm(`Delete brand kit "${draft.name}"?`)) { onDelete(draft.id); setDraft(null); } }} className="ml-auto px-4 py-2 text-sm text-gray-500 hover:text-red-400">Delete</button>}
+                        </div>
+                    </div>
+                ) : (
+                    <p className="p-8 text-center text-sm text-gray-500">Pick a kit to edit, create a new one, or import a JSON export.</p>
+                )}
+            </aside>
+        </div>
+    );
+};
+
+export default BrandKitManager;
@@ -0,0 +1,49 @@
+import React, { useState } from 'react';
+import { ExportFormat, ExportResult, exportPresets, formatBytes, formatExtensions } from '../services/exporter';
+
+type ExportPanelProps = {
+    isExporting: boolean;
+    results: ExportResult[];
+    onExport: (presetId: string, format: ExportFormat | null) => void;
+    onExportAll: (format: ExportFormat | null) => void;
+};
+
+const selectClass = 'bg-gray-900 border border-gray-700 rounded-md p-2 text-sm text-gray-200 focus:ring-2 focus:ring-amber-500 focus:border-amber-500';
+const formats: ExportFormat[] = ['image/jpeg', 'image/png', 'image/webp'];
+
+const ExportPanel: React.FC<ExportPanelProps> = ({ isExporting, results, onExport, onExportAll }) => {
+    const [presetId, setPresetId] = useState(exportPresets[0].id);
+    // '' means "use the preset's own format".
+    const [format, setFormat] = useState<ExportFormat | ''>('');
+
+    return (
+        <div className="w-full max-w-2xl mt-4 rounded-lg border border-gray-700 bg-gray-800 p-3 text-left">
+            <div className="flex flex-wrap items-center gap-2">
+                <select className={selectClass} value={presetId} onChange={(e) => setPresetId(e.target.value)} aria-label="Export preset" disabled={isExporting}>
+                    {exportPresets.map((preset) => (
+                        <option key={preset.id} value={preset.id}>{preset.label} — {preset.width}×{preset.height}{preset.maxBytes ? `, ≤ ${formatBytes(preset.maxBytes)}` : ''}</option>
+                    ))}
+                </select>
+                <select className={selectClass} value={format} onChange={(e) => setFormat(e.target.value as ExportFormat | '')} aria-label="Export format" disabled={isExporting}>
+                    <option value="">Preset format</option>
+                    {formats.map((f) => <option key={f} value={f}>{formatExtensions[f].toUpperCase()}</option>)}
+                </select>
+                <button onClick={() => onExport(presetId, format || null)} disabled={isExporting} className="px-4 py-2 text-sm font-semibold rounded-md bg-amber-600 text-gray-900 hover:bg-amber-500 disabled:opacity-50">Export</button>
+                <button onClick={() => onExportAll(format || null)} disabled={isExporting} className="px-4 py-2 text-sm font-semibold rounded-md bg-gray-700 border border-gray-600 hover:bg-gray-600 disabled:opacity-50">{isExporting ? 'Exporting...' : 'Export all (.zip)'}</button>
+            </div>
+            {results.length > 0 && (
+                <ul className="mt-3 space-y-1 text-xs">
+                    {results.map((result) => (
+                        <li key={result.filename} className={result.withinLimit ? 'text-gray-400' : 'text-red-400'}>
+                            {result.filename} — {formatBytes(result.blob.size)}
+                            {result.quality !== null && ` at ${Math.round(result.quality * 100)}% quality`}
+                            {!result.withinLimit && result.preset.maxBytes && ` (over the ${formatBytes(result.preset.maxBytes)} limit — try JPEG or WebP)`}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default ExportPanel;
@@ -0,0 +1,92 @@
+import React, { useRef, useState } from 'react';
+import { AspectRatio, FitMode, FitSettings } from '../types';
+import { ratioOf } from '../services/canvasRenderer';
+
+type FitModePanelProps = {
+    fit: FitSettings;
+    aspectRatio: AspectRatio;
+    rawImageUrl: string | null;
+    disabled?: boolean;
+    isOutpainting: boolean;
+    hasOutpaint: boolean;
+    onChange: (fit: FitSettings) => void;
+    onOutpaint: () => void;
+    onCancelOutpaint: () => void;
+};
+
+const fitModes: Array<{ mode: FitMode; label: string }> = [
+    { mode: 'blur', label: 'Blur fill' },
+    { mode: 'extend', label: 'Extend edges' },
+    { mode: 'crop', label: 'Crop' },
+    { mode: 'solid', label: 'Edge colour' },
+    { mode: 'gradient', label: 'Gradient' },
+    { mode: 'letterbox', label: 'Letterbox' },
+    { mode: 'outpaint', label: 'AI outpaint' },
+];
+
+const clamp = (value: number, min = 0, max = 1) => Math.min(max, Math.max(min, value));
+
+const FitModePanel: React.FC<FitModePanelProps> = ({ fit, aspectRatio, rawImageUrl, disabled, isOutpainting, hasOutpaint, onChange, onOutpaint, onCancelOutpaint }) => {
+    const pickerRef = useRef<HTMLDivElement>(null);
+    const [imageRatio, setImageRatio] = useState<number | null>(null);
+    const [isDragging, setIsDragging] = useState(false);
+
+    const targetRatio = ratioOf(aspectRatio);
+    // Visible window of the source image, in fractions of its width/height.
+    const cropWindow = (() => {
+        if (!imageRatio) return null;
+        const width = targetRatio < imageRatio ? targetRatio / imageRatio : 1;
+        const height = targetRatio < imageRatio ? 1 : imageRatio / targetRatio;
+        return {
+            width,
+            height,
+            left: clamp(fit.focalPoint.x - width / 2, 0, 1 - width),
+            top: clamp(fit.focalPoint.y - height / 2, 0, 1 - height),
+        };
+    })();
+
+    const setFocalFromPointer = (event: React.PointerEvent) => {
+        const rect = pickerRef.current?.getBoundingClientRect();
+        if (!rect) return;
+        onChange({ ...fit, focalPoint: { x: clamp((event.clientX - rect.left) / rect.width), y: clamp((event.clientY - rect.top) / rect.height) } });
+    };
+
+    return (
+        <div className="space-y-3">
+            <div className="grid grid-cols-3 gap-2">
+                {fitModes.map(({ mode, label }) => (
+                    <button key={mode} onClick={() => onChange({ ...fit, mode })} disabled={disabled} className={`text-center text-xs p-2 rounded-md border ${fit.mode === mode ? 'bg-amber-600 font-semibold border-amber-500 text-white' : 'bg-gray-700 border-gray-600 hover:bg-gray-600'}`}>{label}</button>
+                ))}
+            </div>
+
+            {fit.mode === 'crop' && rawImageUrl && (
+                <div>
+                    <div
+                        ref={pickerRef}
+                        className="relative rounded-md overflow-hidden cursor-crosshair touch-none select-none"
+                        onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); setIsDragging(true); setFocalFromPointer(e); }}
+                        onPointerMove={(e) => isDragging && setFocalFromPointer(e)}
+                        onPointerUp={(e) => { e.currentTarget.releasePointerCapture(e.pointerId); setIsDragging(false); }}
+                    >
+                        <img src={rawImageUrl} alt="Crop focal point" className="block w-full opacity-60" draggable={false} onLoad={(e) => setImageRatio(e.currentTarget.naturalWidth / e.currentTarget.naturalHeight)} />
+                        {cropWindow && (
+                            <div className="absolute border-2 border-amber-500 shadow-[0_0_0_9999px_rgba(0,0,0,0.45)] pointer-events-none" style={{ left: `${cropWindow.left * 100}%`, top: `${cropWindow.top * 100}%`, width: `${cropWindow.width * 100}%`, height: `${cropWindow.height * 100}%` }} />
+                        )}
+                        <div className="absolute h-3 w-3 -translate-x-1/2 -translate-y-1/2 rounded-full bg-amber-500 border-2 border-white pointer-events-none" style={{ left: `${fit.focalPoint.x * 100}%`, top: `${fit.focalPoint.y * 100}%` }} />
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">Drag to choose what stays in frame.</p>
+                </div>
+            )}
+
+            {fit.mode === 'outpaint' && (
+                <div className="flex items-center gap-3">
+                    <button onClick={onOutpaint} disabled={disabled || isOutpainting || !rawImageUrl} className="px-3 py-2 text-xs font-semibold rounded-md bg-amber-600 text-gray-900 hover:bg-amber-500 disabled:opacity-50">{isOutpainting ? 'Extending...' : hasOutpaint ? 'Outpaint again' : `Outpaint to ${aspectRatio}`}</button>
+                    {isOutpainting && <button onClick={onCancelOutpaint} className="text-xs text-gray-400 hover:text-red-400">Cancel</button>}
+                    <p className="text-xs text-gray-500">{hasOutpaint ? 'Showing the AI-extended image.' : 'Preview uses blur fill until the AI result is ready.'}</p>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default FitModePanel;
@@ -0,0 +1,133 @@
+import React, { useMemo, useState } from 'react';
+import { AspectRatio, GenerationRecord, Project } from '../types';
+
+type HistoryPanelProps = {
+    isOpen: boolean;
+    records: GenerationRecord[];
+    projects: Project[];
+    activeProjectId: string | null;
+    onClose: () => void;
+    onSetActiveProject: (id: string | null) => void;
+    onCreateProject: (name: string) => void;
+    onDeleteProject: (id: string) => void;
+    onRestore: (record: GenerationRecord) => void;
+    onRegenerate: (record: GenerationRecord) => void;
+    onAssign: (id: string, projectId: string | null) => void;
+    onDelete: (id: string) => void;
+};
+
+// Filter values: a project id, or one of these two pseudo-projects.
+const ALL = '__all__';
+const UNSORTED = '__unsorted__';
+
+const inputClass = 'w-full bg-gray-900 border border-gray-700 rounded-md p-2 text-sm text-gray-200 placeholder-gray-500 focus:ring-2 focus:ring-amber-500 focus:border-amber-500';
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ isOpen, records, projects, activeProjectId, onClose, onSetActiveProject, onCreateProject, onDeleteProject, onRestore, onRegenerate, onAssign, onDelete }) => {
+    const [query, setQuery] = useState('');
+    const [projectFilter, setProjectFilter] = useState<string>(ALL);
+    const [styleFilter, setStyleFilter] = useState<string>(ALL);
+    const [ratioFilter, setRatioFilter] = useState<string>(ALL);
+    const [newProjectName, setNewProjectName] = useState('');
+
+    const styleOptions = useMemo(() => Array.from(new Set(records.map((r) => r.recipe.style))).sort(), [records]);
+    const ratioOptions = useMemo(() => Array.from(new Set(records.map((r) => r.recipe.aspectRatio))).sort() as AspectRatio[], [records]);
+
+    const filtered = useMemo(() => {
+        const needle = query.trim().toLowerCase();
+        return records.filter((record) => {
+            if (projectFilter === UNSORTED && record.projectId) return false;
+            if (projectFilter !== ALL && projectFilter !== UNSORTED && record.projectId !== projectFilter) return false;
+            if (styleFilter !== ALL && record.recipe.style !== styleFilter) return false;
+            if (ratioFilter !== ALL && record.recipe.aspectRatio !== ratioFilter) return false;
+            if (!needle) return true;
+            const { prompt, negativePrompt, style, model } = record.recipe;
+            return [prompt, negativePrompt, style, model].some((field) => field.toLowerCase().includes(needle));
+        });
+    }, [records, query, projectFilter, styleFilter, ratioFilter]);
+
+    const handleCreateProject = (event: React.FormEvent) => {
+        event.preventDefault();
+        const name = newProjectName.trim();
+        if (!name) return;
+        onCreateProject(name);
+        setNewProjectName('');
+    };
+
+    if (!isOpen) return null;
+
+    const projectName = (id: string | null) => projects.find((p) => p.id === id)?.name ?? 'Unsorted';
+
+    return (
+        <div className="fixed inset-0 z-40 flex justify-end" role="dialog" aria-modal="true" aria-label="Generation history">
+            <div className="absolute inset-0 bg-black/60" onClick={onClose} />
+            <aside className="relative w-full max-w-md h-full bg-gray-800 shadow-2xl flex flex-col">
+                <header className="flex items-center justify-between p-4 border-b border-gray-700">
+                    <h2 className="text-xl font-serif font-bold text-white">History</h2>
+                    <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close history">
+                        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+                    </button>
+                </header>
+
+                <div className="p-4 space-y-3 border-b border-gray-700">
+                    <label className="block text-xs font-semibold text-gray-400">Save new generations to</label>
+                    <div className="flex gap-2">
+                        <select className={inputClass} value={activeProjectId ?? ''} onChange={(e) => onSetActiveProject(e.target.value || null)}>
+                            <option value="">Unsorted</option>
+                            {projects.map((p) => <option key={p.id} value={p.id}>{p.name}</option>)}
+                        </select>
+                        {activeProjectId && <button onClick={() => window.confirm(`Delete project "${projectName(activeProjectId)}"? Its generations are kept as unsorted.`) && onDeleteProject(activeProjectId)} className="px-3 text-sm rounded-md border border-gray-600 text-gray-400 hover:text-red-400">Delete</button>}
+                    </div>
+                    <form onSubmit={handleCreateProject} className="flex gap-2">
+                        <input className={inputClass} placeholder="New project, e.g. Episode 42 or channel name" value={newProjectName} onChange={(e) => setNewProjectName(e.target.value)} />
+                        <button type="submit" disabled={!newProjectName.trim()} className="px-3 text-sm font-semibold rounded-md bg-amber-600 text-gray-900 hover:bg-amber-500 disabled:opacity-50">Create</button>
+                    </form>
+                </div>
+
+                <div className="p-4 space-y-2 border-b border-gray-700">
+                    <input type="search" className={inputClass} placeholder="Search prompts, styles, models..." value={query} onChange={(e) => setQuery(e.target.value)} />
+                    <div className="grid grid-cols-3 gap-2">
+                        <select className={inputClass} value={projectFilter} onChange={(e) => setProjectFilter(e.target.value)} aria-label="Filter by project">
+                            <option value={ALL}>All projects</option>
+                            <option value={UNSORTED}>Unsorted</option>
+                            {projects.map((p) => <option key={p.id} value={p.id}>{p.name}</option>)}
+                        </select>
+                        <select className={inputClass} value={styleFilter} onChange={(e) => setStyleFilter(e.target.value)} aria-label="Filter by style">
+                            <option value={ALL}>All styles</option>
+                            {styleOptions.map((s) => <option key={s} value={s}>{s}</option>)}
+                        </select>
+                        <select className={inputClass} value={ratioFilter} onChange={(e) => setRatioFilter(e.target.value)} aria-label="Filter by aspect ratio">
+                            <option value={ALL}>All ratios</option>
+                            {ratioOptions.map((ar) => <option key={ar} value={ar}>{ar}</option>)}
+                        </select>
+                    </div>
+                </div>
+
+                <ul className="flex-1 overflow-y-auto p-4 space-y-4">
+                    {filtered.length === 0 && <li className="text-center text-sm text-gray-500 py-8">{records.length === 0 ? 'Generations you create will appear here.' : 'Nothing matches these filters.'}</li>}
+                    {filtered.map((record) => (
+                        <li key={record.id} className="rounded-lg border border-gray-700 bg-gray-900 overflow-hidden">
+                            <img src={record.imageUrl} alt={record.recipe.prompt} className="w-full max-h-48 object-contain bg-black" loading="lazy" />
+                            <div className="p-3 space-y-2">
+                                <p className="text-sm text-gray-300 line-clamp-3" title={record.recipe.prompt}>{record.recipe.prompt || <span className="italic text-gray-500">No prompt</span>}</p>
+                                <p className="text-xs text-gray-500">{record.recipe.style} · {record.recipe.aspectRatio} · {record.recipe.model}{record.recipe.referenceImages.length > 0 ? ` · ${record.recipe.referenceImages.length} reference${record.recipe.referenceImages.length > 1 ? 's' : ''}` : ''} · {formatDate(record.createdAt)}</p>
+                                <div className="flex flex-wrap items-center gap-2">
+                                    <button onClick={() => onRestore(record)} className="text-xs font-semibold px-3 py-1.5 rounded-md bg-gray-700 border border-gray-600 hover:bg-gray-600">Restore settings</button>
+                                    <button onClick={() => onRegenerate(record)} className="text-xs font-semibold px-3 py-1.5 rounded-md bg-amber-600 text-gray-900 hover:bg-amber-500">Regenerate</button>
+                                    <select className="text-xs bg-gray-800 border border-gray-600 rounded-md py-1.5 px-2 text-gray-300" value={record.projectId ?? ''} onChange={(e) => onAssign(record.id, e.target.value || null)} aria-label="Move to project">
+                                        <option value="">Unsorted</option>
+                                        {projects.map((p) => <option key={p.id} value={p.id}>{p.name}</option>)}
+                                    </select>
+                                    <button onClick={() => onDelete(record.id)} className="ml-auto text-xs text-gray-500 hover:text-red-400">Delete</button>
+                                </div>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            </aside>
+        </div>
+    );
+};
+
+export default HistoryPanel;
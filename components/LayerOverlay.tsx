@@ -0,0 +1,112 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { TextLayer } from '../types';
+import { safeAreas } from '../services/textLayers';
+
+type LayerOverlayProps = {
+    layers: TextLayer[];
+    selectedId: string | null;
+    showGuides: boolean;
+    onSelect: (id: string) => void;
+    onMove: (id: string, x: number, y: number) => void;
+};
+
+type Region = { x: number; y: number; width: number; height: number };
+type Position = { id: string; x: number; y: number };
+
+const regionStyle = ({ x, y, width, height }: Region): React.CSSProperties => ({
+    left: `${x * 100}%`,
+    top: `${y * 100}%`,
+    width: `${width * 100}%`,
+    height: `${height * 100}%`,
+});
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Sits exactly on top of the preview image: draws the safe-area guides and one
+ * drag handle per visible layer. The text itself is painted by the canvas
+ * pipeline, so what you see is what gets exported. While dragging, the handle
+ * follows the pointer directly and the layer is moved at most once per frame,
+ * since every move re-renders the whole thumbnail.
+ */
+const LayerOverlay: React.FC<LayerOverlayProps> = ({ layers, selectedId, showGuides, onSelect, onMove }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const dragging = useRef<string | null>(null);
+    const [dragPosition, setDragPosition] = useState<Position | null>(null);
+    const pendingMove = useRef<Position | null>(null);
+    const frame = useRef<number | null>(null);
+
+    useEffect(() => () => {
+        if (frame.current !== null) cancelAnimationFrame(frame.current);
+    }, []);
+
+    const flushMove = () => {
+        frame.current = null;
+        const move = pendingMove.current;
+        pendingMove.current = null;
+        if (move) onMove(move.id, move.x, move.y);
+    };
+
+    const toRelative = (event: React.PointerEvent): [number, number] | null => {
+        const rect = containerRef.current?.getBoundingClientRect();
+        if (!rect || rect.width === 0 || rect.height === 0) return null;
+        return [clamp((event.clientX - rect.left) / rect.width), clamp((event.clientY - rect.top) / rect.height)];
+    };
+
+    const handlePointerDown = (id: string) => (event: React.PointerEvent<HTMLButtonElement>) => {
+        event.preventDefault();
+        event.currentTarget.setPointerCapture(event.pointerId);
+        dragging.current = id;
+        onSelect(id);
+    };
+
+    const handlePointerMove = (event: React.PointerEvent<HTMLButtonElement>) => {
+        if (!dragging.current) return;
+        const position = toRelative(event);
+        if (!position) return;
+        const move = { id: dragging.current, x: position[0], y: position[1] };
+        setDragPosition(move);
+        pendingMove.current = move;
+        if (frame.current === null) frame.current = requestAnimationFrame(flushMove);
+    };
+
+    const handlePointerUp = (event: React.PointerEvent<HTMLButtonElement>) => {
+        event.currentTarget.releasePointerCapture(event.pointerId);
+        dragging.current = null;
+        // Commit the final position now rather than waiting for the next frame.
+        if (frame.current !== null) cancelAnimationFrame(frame.current);
+        flushMove();
+        setDragPosition(null);
+    };
+
+    return (
+        <div ref={containerRef} className="absolute inset-0 pointer-events-none select-none">
+            {showGuides && (
+                <>
+                    <div className="absolute border border-dashed border-cyan-400/70" style={regionStyle(safeAreas.titleSafe)} />
+                    <div className="absolute border border-dashed border-red-400/80 bg-red-500/20 flex items-center justify-center" style={regionStyle(safeAreas.timestampBadge)}>
+                        <span className="text-[10px] font-semibold text-red-200">12:34</span>
+                    </div>
+                </>
+            )}
+            {layers.filter((layer) => layer.visible).map((layer) => {
+                const { x, y } = dragPosition?.id === layer.id ? dragPosition : layer;
+                return (
+                    <button
+                        key={layer.id}
+                        type="button"
+                        title={layer.text}
+                        aria-label={`Move layer "${layer.text}"`}
+                        className={`absolute pointer-events-auto -translate-x-1/2 -translate-y-1/2 h-5 w-5 rounded-full border-2 cursor-move touch-none ${layer.id === selectedId ? 'bg-amber-500 border-white' : 'bg-gray-900/70 border-amber-500'}`}
+                        style={{ left: `${x * 100}%`, top: `${y * 100}%` }}
+                        onPointerDown={handlePointerDown(layer.id)}
+                        onPointerMove={handlePointerMove}
+                        onPointerUp={handlePointerUp}
+                    />
+                );
+            })}
+        </div>
+    );
+};
+
+export default LayerOverlay;
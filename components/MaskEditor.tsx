@@ -0,0 +1,193 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { isMaskEmpty } from '../services/inpainting';
+
+type MaskTool = 'brush' | 'eraser' | 'rectangle' | 'lasso';
+
+type MaskEditorProps = {
+    imageUrl: string;
+    isApplying: boolean;
+    error: string | null;
+    onApply: (mask: HTMLCanvasElement, instruction: string, featherRadius: number) => void;
+    onCancel: () => void;
+    /** Stops an edit that is still being applied. */
+    onCancelApply: () => void;
+};
+
+type Point = { x: number; y: number };
+
+const tools: Array<{ tool: MaskTool; label: string }> = [
+    { tool: 'brush', label: 'Brush' },
+    { tool: 'eraser', label: 'Eraser' },
+    { tool: 'rectangle', label: 'Rectangle' },
+    { tool: 'lasso', label: 'Lasso' },
+];
+
+const MASK_COLOR = 'rgba(239, 68, 68, 1)';
+
+/**
+ * Paints a selection mask over the working image. The mask canvas matches the
+ * image's native resolution and is only scaled by CSS, so what you paint maps
+ * 1:1 onto the pixels that will be replaced.
+ */
+const MaskEditor: React.FC<MaskEditorProps> = ({ imageUrl, isApplying, error, onApply, onCancel, onCancelApply }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+    const [tool, setTool] = useState<MaskTool>('brush');
+    const [brushSize, setBrushSize] = useState(0.05); // fraction of image width
+    const [featherRadius, setFeatherRadius] = useState(12);
+    const [instruction, setInstruction] = useState('');
+    const [hasMask, setHasMask] = useState(false);
+
+    // In-progress gesture state; refs because pointer events fire faster than renders.
+    const gesture = useRef<{ start: Point; last: Point; points: Point[]; snapshot: ImageData } | null>(null);
+
+    useEffect(() => {
+        // A new version came in: the old mask no longer describes anything.
+        const canvas = canvasRef.current;
+        canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+        setHasMask(false);
+        const image = new Image();
+        image.onload = () => setSize({ width: image.naturalWidth, height: image.naturalHeight });
+        image.src = imageUrl;
+    }, [imageUrl]);
+
+    const getContext = () => canvasRef.current?.getContext('2d') ?? null;
+
+    const toCanvasPoint = (event: React.PointerEvent<HTMLCanvasElement>): Point => {
+        const rect = event.currentTarget.getBoundingClientRect();
+        return {
+            x: ((event.clientX - rect.left) / rect.width) * event.currentTarget.width,
+            y: ((event.clientY - rect.top) / rect.height) * event.currentTarget.height,
+        };
+    };
+
+    const strokeSegment = (ctx: CanvasRenderingContext2D, from: Point, to: Point) => {
+        ctx.save();
+        ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+        ctx.strokeStyle = MASK_COLOR;
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+        ctx.lineWidth = brushSize * ctx.canvas.width;
+        ctx.beginPath();
+        ctx.moveTo(from.x, from.y);
+        ctx.lineTo(to.x, to.y);
+        ctx.stroke();
+        ctx.restore();
+    };
+
+    const drawShapePreview = (ctx: CanvasRenderingContext2D, current: Point, fill: boolean) => {
+        if (!gesture.current) return;
+        const { start, points, snapshot } = gesture.current;
+        ctx.putImageData(snapshot, 0, 0);
+        ctx.save();
+        ctx.fillStyle = MASK_COLOR;
+        ctx.strokeStyle = MASK_COLOR;
+        ctx.lineWidth = Math.max(2, ctx.canvas.width / 300);
+        if (tool === 'rectangle') {
+            ctx.fillRect(Math.min(start.x, current.x), Math.min(start.y, current.y), Math.abs(current.x - start.x), Math.abs(current.y - start.y));
+        } else {
+            ctx.beginPath();
+            points.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+            ctx.lineTo(current.x, current.y);
+            if (fill) {
+                ctx.closePath();
+                ctx.fill();
+            } else {
+                ctx.stroke();
+            }
+        }
+        ctx.restore();
+    };
+
+    const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+        const ctx = getContext();
+        if (!ctx || isApplying) return;
+        event.currentTarget.setPointerCapture(event.pointerId);
+        const point = toCanvasPoint(event);
+        gesture.current = { start: point, last: point, points: [point], snapshot: ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height) };
+        if (tool === 'brush' || tool === 'eraser') strokeSegment(ctx, point, point);
+    };
+
+    const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+        const ctx = getContext();
+        if (!ctx || !gesture.current) return;
+        const point = toCanvasPoint(event);
+        if (tool === 'brush' || tool === 'eraser') {
+            strokeSegment(ctx, gesture.current.last, point);
+        } else {
+            if (tool === 'lasso') gesture.current.points.push(point);
+            drawShapePreview(ctx, point, false);
+        }
+        gesture.current.last = point;
+    };
+
+    const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+        const ctx = getContext();
+        if (!ctx || !gesture.current) return;
+        event.currentTarget.releasePointerCapture(event.pointerId);
+        if (tool === 'rectangle' || tool === 'lasso') drawShapePreview(ctx, toCanvasPoint(event), true);
+        gesture.current = null;
+        setHasMask(!isMaskEmpty(ctx.canvas));
+    };
+
+    const clearMask = () => {
+        const ctx = getContext();
+        if (!ctx) return;
+        ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+        setHasMask(false);
+    };
+
+    const handleApply = (event: React.FormEvent) => {
+        event.preventDefault();
+        if (!canvasRef.current || !hasMask || !instruction.trim()) return;
+        onApply(canvasRef.current, instruction.trim(), featherRadius);
+    };
+
+    return (
+        <div className="w-full flex flex-col items-center h-full p-4">
+            <div className="w-full flex-1 flex items-center justify-center">
+                <div className="relative inline-block max-w-full">
+                    <img src={imageUrl} alt="Image being edited" className="block max-w-full max-h-[60vh] object-contain rounded-lg shadow-2xl" />
+                    {size && (
+                        <canvas
+                            ref={canvasRef}
+                            width={size.width}
+                            height={size.height}
+                            className={`absolute inset-0 w-full h-full opacity-50 touch-none ${isApplying ? 'cursor-wait' : 'cursor-crosshair'}`}
+                            onPointerDown={handlePointerDown}
+                            onPointerMove={handlePointerMove}
+                            onPointerUp={handlePointerUp}
+                        />
+                    )}
+                </div>
+            </div>
+            <form onSubmit={handleApply} className="w-full max-w-2xl mt-4 rounded-lg border border-gray-700 bg-gray-800 p-3 text-left space-y-3">
+                <div className="flex flex-wrap items-center gap-2">
+                    {tools.map(({ tool: t, label }) => (
+                        <button key={t} type="button" onClick={() => setTool(t)} className={`px-3 py-1.5 text-xs rounded-md border ${tool === t ? 'bg-amber-600 font-semibold border-amber-500 text-white' : 'bg-gray-700 border-gray-600 hover:bg-gray-600'}`}>{label}</button>
+                    ))}
+                    <button type="button" onClick={clearMask} className="px-3 py-1.5 text-xs rounded-md border border-gray-600 text-gray-400 hover:text-red-400">Clear</button>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                    <label className="block text-xs text-gray-400">
+                        <span className="flex justify-between"><span>Brush size</span><span className="text-gray-500">{Math.round(brushSize * 100)}%</span></span>
+                        <input type="range" min={0.01} max={0.2} step={0.005} value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} className="w-full accent-amber-500" />
+                    </label>
+                    <label className="block text-xs text-gray-400">
+                        <span className="flex justify-between"><span>Edge feather</span><span className="text-gray-500">{featherRadius}px</span></span>
+                        <input type="range" min={0} max={60} step={1} value={featherRadius} onChange={(e) => setFeatherRadius(Number(e.target.value))} className="w-full accent-amber-500" />
+                    </label>
+                </div>
+                <div className="flex gap-2">
+                    <input className="flex-1 bg-gray-900 border border-gray-700 rounded-md p-2 text-sm text-gray-200 placeholder-gray-500 focus:ring-2 focus:ring-amber-500 focus:border-amber-500" placeholder="What should change in the marked area?" value={instruction} onChange={(e) => setInstruction(e.target.value)} disabled={isApplying} />
+                    <button type="submit" disabled={isApplying || !hasMask || !instruction.trim()} className="px-4 text-sm font-semibold rounded-md bg-amber-600 text-gray-900 hover:bg-amber-500 disabled:opacity-50">{isApplying ? 'Applying...' : 'Apply'}</button>
+                    <button type="button" onClick={isApplying ? onCancelApply : onCancel} className="px-4 text-sm rounded-md border border-gray-600 text-gray-300 hover:bg-gray-700">{isApplying ? 'Cancel' : 'Done'}</button>
+                </div>
+                {error && <p role="alert" className="text-sm text-red-400">{error}</p>}
+                {!hasMask && <p className="text-xs text-gray-500">Paint over the area to change. Everything outside the mask stays pixel-identical.</p>}
+            </form>
+        </div>
+    );
+};
+
+export default MaskEditor;
@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from 'react';
+import { PromptIdea } from '../types';
+import { ideaToPrompt } from '../services/promptTemplates';
+
+type PromptIdeasProps = {
+    ideas: PromptIdea[];
+    onUsePrompt: (prompt: string) => void;
+    onUseHeadline: (headline: string) => void;
+    onClose: () => void;
+};
+
+type IdeaField = keyof PromptIdea;
+
+const fields: { key: IdeaField; label: string }[] = [
+    { key: 'scene', label: 'Scene' },
+    { key: 'emotion', label: 'Emotion' },
+    { key: 'composition', label: 'Composition' },
+    { key: 'headline', label: 'Headline' },
+];
+
+const firstOfEach: Record<IdeaField, number> = { scene: 0, emotion: 0, composition: 0, headline: 0 };
+
+/**
+ * Shows each suggestion as a column of parts. One part per row can be picked,
+ * so a scene from one idea can be combined with the headline of another. The
+ * user's own prompt is only touched when they choose to use the mix.
+ */
+const PromptIdeas: React.FC<PromptIdeasProps> = ({ ideas, onUsePrompt, onUseHeadline, onClose }) => {
+    const [picks, setPicks] = useState<Record<IdeaField, number>>(firstOfEach);
+
+    useEffect(() => {
+        setPicks(firstOfEach);
+    }, [ideas]);
+
+    // The reset above only runs after the first render with new ideas, which may be fewer than before.
+    const pickedIndex = (field: IdeaField) => Math.min(picks[field], ideas.length - 1);
+    const picked = (field: IdeaField) => ideas[pickedIndex(field)][field];
+
+    const mixed = ideaToPrompt({ scene: picked('scene'), emotion: picked('emotion'), composition: picked('composition') });
+    const headline = picked('headline');
+
+    return (
+        <div className="mt-2 rounded-md border border-gray-700 bg-gray-900/60 p-3">
+            <div className="flex items-center justify-between mb-2">
+                <span className="text-xs font-semibold text-gray-300">Pick one of each to mix and match</span>
+                <button type="button" onClick={onClose} className="text-xs text-gray-500 hover:text-white">Close</button>
+            </div>
+            <div className="space-y-2">
+                {fields.map(({ key, label }) => (
+                    <div key={key}>
+                        <span className="block text-[11px] uppercase tracking-wide text-gray-500 mb-1">{label}</span>
+                        <div className="grid gap-1" style={{ gridTemplateColumns: `repeat(${ideas.length}, minmax(0, 1fr))` }}>
+                            {ideas.map((idea, i) => (
+                                <button key={i} type="button" onClick={() => setPicks({ ...picks, [key]: i })} className={`rounded-md border p-1.5 text-left text-xs ${pickedIndex(key) === i ? 'border-amber-500 bg-amber-600/20 text-amber-200' : 'border-gray-700 text-gray-400 hover:bg-gray-700'}`}>{idea[key]}</button>
+                            ))}
+                        </div>
+                    </div>
+                ))}
+            </div>
+            <p className="mt-3 text-xs text-gray-400"><span className="font-semibold text-gray-300">Mix:</span> {mixed}</p>
+            <div className="mt-2 flex justify-end gap-2">
+                <button type="button" onClick={() => onUseHeadline(headline)} className="px-3 py-1.5 text-xs rounded-md border border-gray-600 text-gray-300 hover:bg-gray-700">Use headline</button>
+                <button type="button" onClick={() => onUsePrompt(mixed)} className="px-3 py-1.5 text-xs font-semibold rounded-md bg-amber-600 text-white hover:bg-amber-500">Use as prompt</button>
+            </div>
+        </div>
+    );
+};
+
+export default PromptIdeas;
@@ -0,0 +1,72 @@
+import React, { useEffect, useState } from 'react';
+import { PromptTemplate } from '../types';
+import { fillTemplate, templateVariables } from '../services/promptTemplates';
+
+type PromptTemplatePickerProps = {
+    templates: PromptTemplate[];
+    currentPrompt: string;
+    disabled: boolean;
+    onApply: (prompt: string) => void;
+    onSave: (name: string, template: string) => void;
+    onDelete: (id: string) => void;
+};
+
+const inputClass = 'w-full bg-gray-900 border border-gray-700 rounded-md p-2 text-sm text-gray-200 placeholder-gray-500 focus:ring-2 focus:ring-amber-500 focus:border-amber-500';
+
+const PromptTemplatePicker: React.FC<PromptTemplatePickerProps> = ({ templates, currentPrompt, disabled, onApply, onSave, onDelete }) => {
+    const [selectedId, setSelectedId] = useState('');
+    // Values are kept across templates so a filled-in {topic} carries over when switching.
+    const [values, setValues] = useState<Record<string, string>>({});
+    const [saveName, setSaveName] = useState<string | null>(null);
+    const selected = templates.find((template) => template.id === selectedId) ?? null;
+    const variables = selected ? templateVariables(selected.template) : [];
+    const isComplete = variables.every((name) => values[name]?.trim());
+
+    useEffect(() => {
+        if (selectedId && !selected) setSelectedId('');
+    }, [selectedId, selected]);
+
+    const submitSave = () => {
+        const name = saveName?.trim();
+        if (!name) return;
+        onSave(name, currentPrompt);
+        setSaveName(null);
+    };
+
+    return (
+        <div className="mb-2 space-y-2">
+            <div className="flex items-center gap-2">
+                <select className={`${inputClass} flex-1`} value={selectedId} onChange={(e) => setSelectedId(e.target.value)} disabled={disabled} aria-label="Prompt template">
+                    <option value="">Start from a template…</option>
+                    {templates.map((template) => <option key={template.id} value={template.id}>{template.builtIn ? template.name : `★ ${template.name}`}</option>)}
+                </select>
+                <button type="button" onClick={() => setSaveName(saveName === null ? '' : null)} disabled={disabled || !currentPrompt.trim()} className="px-3 py-2 text-xs rounded-md border border-gray-600 text-gray-300 hover:bg-gray-700 disabled:opacity-40 whitespace-nowrap" title="Save the current prompt as a template. Use {name} for parts that change.">Save as template</button>
+            </div>
+
+            {saveName !== null && (
+                <div className="flex items-center gap-2">
+                    <input className={inputClass} placeholder="Template name" value={saveName} autoFocus onChange={(e) => setSaveName(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter') submitSave(); if (e.key === 'Escape') setSaveName(null); }} />
+                    <button type="button" onClick={submitSave} disabled={!saveName.trim()} className="px-3 py-2 text-xs font-semibold rounded-md bg-amber-600 text-white hover:bg-amber-500 disabled:opacity-40">Save</button>
+                </div>
+            )}
+
+            {selected && (
+                <div className="rounded-md border border-gray-700 bg-gray-900/60 p-3 space-y-2">
+                    <p className="text-xs text-gray-500 line-clamp-3">{selected.template}</p>
+                    {variables.map((name) => (
+                        <div key={name} className="flex items-center gap-2">
+                            <label htmlFor={`template-var-${name}`} className="w-20 shrink-0 text-xs font-semibold text-gray-400">{name}</label>
+                            <input id={`template-var-${name}`} className={inputClass} value={values[name] ?? ''} onChange={(e) => setValues({ ...values, [name]: e.target.value })} disabled={disabled} />
+                        </div>
+                    ))}
+                    <div className="flex items-center justify-between">
+                        {!selected.builtIn ? <button type="button" onClick={() => onDelete(selected.id)} disabled={disabled} className="text-xs text-gray-500 hover:text-red-400">Delete template</button> : <span />}
+                        <button type="button" onClick={() => onApply(fillTemplate(selected.template, values))} disabled={disabled || !isComplete} className="px-3 py-1.5 text-xs font-semibold rounded-md bg-amber-600 text-white hover:bg-amber-500 disabled:opacity-40">Use template</button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default PromptTemplatePicker;
@@ -0,0 +1,72 @@
+import React, { useRef, useState } from 'react';
+import { ReferenceImage, ReferenceRole } from '../types';
+
+type ReferenceSlotsProps = {
+    references: ReferenceImage[];
+    maxReferences: number;
+    disabled?: boolean;
+    onAddFiles: (files: File[]) => void;
+    onRemove: (id: string) => void;
+    onMove: (id: string, direction: -1 | 1) => void;
+    onChangeRole: (id: string, role: ReferenceRole) => void;
+};
+
+export const referenceRoles: Array<{ role: ReferenceRole; label: string; hint: string }> = [
+    { role: 'subject', label: 'Subject', hint: "AI will preserve the person's likeness." },
+    { role: 'style', label: 'Style reference', hint: 'Palette and lighting are borrowed, not the content.' },
+    { role: 'logo', label: 'Logo', hint: 'Placed small and unaltered.' },
+    { role: 'background', label: 'Background', hint: 'Used as the scene environment.' },
+];
+
+const ReferenceSlots: React.FC<ReferenceSlotsProps> = ({ references, maxReferences, disabled, onAddFiles, onRemove, onMove, onChangeRole }) => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [isDragOver, setIsDragOver] = useState(false);
+
+    const handleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(event.target.files ?? []);
+        if (files.length > 0) onAddFiles(files);
+        // Reset so picking the same file again still fires a change.
+        if (fileInputRef.current) fileInputRef.current.value = "";
+    };
+
+    const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
+        if (disabled || !event.dataTransfer.types.includes('Files')) return;
+        event.preventDefault();
+        event.dataTransfer.dropEffect = 'copy';
+        setIsDragOver(true);
+    };
+
+    const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+        event.preventDefault();
+        setIsDragOver(false);
+        const files = Array.from(event.dataTransfer.files);
+        if (!disabled && files.length > 0) onAddFiles(files);
+    };
+
+    return (
+        <div className="space-y-2">
+            {references.map((reference, index) => (
+                <div key={reference.id} className="flex items-center gap-3 p-2 rounded-lg bg-gray-900 border border-gray-700">
+                    <span className="w-5 text-center text-xs font-semibold text-gray-500">{index + 1}</span>
+                    <img src={reference.data} alt={`${reference.role} reference`} className="h-14 w-14 object-cover rounded-md shadow-md" />
+                    <div className="flex-1 min-w-0">
+                        <select value={reference.role} onChange={(e) => onChangeRole(reference.id, e.target.value as ReferenceRole)} disabled={disabled} className="w-full bg-gray-800 border border-gray-700 rounded-md p-1.5 text-sm text-gray-200" aria-label="Reference role">
+                            {referenceRoles.map(({ role, label }) => <option key={role} value={role}>{label}</option>)}
+                        </select>
+                        <p className="text-xs text-gray-500 mt-1 truncate">{referenceRoles.find((r) => r.role === reference.role)?.hint}</p>
+                    </div>
+                    <div className="flex flex-col">
+                        <button onClick={() => onMove(reference.id, -1)} disabled={disabled || index === 0} title="Move up" aria-label="Move up" className="text-gray-500 hover:text-gray-200 disabled:opacity-30">▲</button>
+                        <button onClick={() => onMove(reference.id, 1)} disabled={disabled || index === references.length - 1} title="Move down" aria-label="Move down" className="text-gray-500 hover:text-gray-200 disabled:opacity-30">▼</button>
+                    </div>
+                    <button onClick={() => onRemove(reference.id)} disabled={disabled} className="bg-red-600 rounded-full p-1.5 text-white hover:bg-red-500" aria-label="Remove image"><svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg></button>
+                </div>
+            ))}
+            {references.length < maxReferences && (
+                <div onDragOver={handleDragOver} onDragLeave={() => setIsDragOver(false)} onDrop={handleDrop} className={`flex justify-center items-center rounded-lg border-2 border-dashed hover:border-amber-500 ${isDragOver ? 'border-amber-500 bg-amber-500/10' : 'border-gray-600 bg-gray-900'} ${references.length > 0 ? 'p-3' : 'p-6'}`}><div className="text-center"><svg className="mx-auto h-8 w-8 text-gray-500" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5m-13.5-9L12 3m0 0l4.5 4.5M12 3v13.5" /></svg><label htmlFor="file-upload" className="mt-2 text-sm font-semibold text-amber-500 cursor-pointer hover:text-amber-400">{references.length > 0 ? 'Add another image' : 'Upload images'}<input id="file-upload" type="file" multiple className="sr-only" onChange={handleChange} ref={fileInputRef} disabled={disabled} accept="image/*" /></label><p className="text-xs text-gray-500">Face, logo, product or background · or drop or paste an image</p></div></div>
+            )}
+        </div>
+    );
+};
+
+export default ReferenceSlots;
@@ -0,0 +1,89 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { VersionNode, VersionTree } from '../types';
+import { canRedo, canUndo, childrenOf, pathTo } from '../services/versionTree';
+
+type RefineChatProps = {
+    tree: VersionTree;
+    isRefining: boolean;
+    error: string | null;
+    onRefine: (instruction: string) => void;
+    onCancel: () => void;
+    onUndo: () => void;
+    onRedo: () => void;
+    onCheckout: (id: string) => void;
+};
+
+const quickInstructions = ['Make the background darker', 'Move the person to the left', 'Add a shocked expression', 'Increase contrast and saturation'];
+
+const VersionBranch: React.FC<{ tree: VersionTree; node: VersionNode; depth: number; onCheckout: (id: string) => void }> = ({ tree, node, depth, onCheckout }) => (
+    <>
+        <li>
+            <button onClick={() => onCheckout(node.id)} className={`w-full flex items-center gap-2 rounded-md px-2 py-1 text-left text-xs ${node.id === tree.currentId ? 'bg-amber-600/30 text-amber-300' : 'text-gray-400 hover:bg-gray-700'}`} style={{ paddingLeft: `${depth * 12 + 8}px` }}>
+                <img src={node.imageUrl} alt="" className="h-6 w-10 object-cover rounded-sm bg-black" />
+                <span className="truncate">{node.instruction ?? 'Original'}</span>
+            </button>
+        </li>
+        {childrenOf(tree, node.id).map((child) => <VersionBranch key={child.id} tree={tree} node={child} depth={depth + 1} onCheckout={onCheckout} />)}
+    </>
+);
+
+const RefineChat: React.FC<RefineChatProps> = ({ tree, isRefining, error, onRefine, onCancel, onUndo, onRedo, onCheckout }) => {
+    const [instruction, setInstruction] = useState('');
+    const [showVersions, setShowVersions] = useState(false);
+    const messagesRef = useRef<HTMLOListElement>(null);
+    const path = pathTo(tree, tree.currentId);
+    const hasBranches = Object.keys(tree.nodes).length > path.length;
+
+    useEffect(() => {
+        messagesRef.current?.scrollTo({ top: messagesRef.current.scrollHeight });
+    }, [tree.currentId, isRefining, error]);
+
+    const submit = (text: string) => {
+        const trimmed = text.trim();
+        if (!trimmed || isRefining) return;
+        onRefine(trimmed);
+        setInstruction('');
+    };
+
+    return (
+        <div className="w-full max-w-2xl mt-4 rounded-lg border border-gray-700 bg-gray-800 p-3 text-left">
+            <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-semibold text-gray-300">Refine</h3>
+                <div className="flex items-center gap-2">
+                    <button onClick={onUndo} disabled={!canUndo(tree) || isRefining} className="px-2 py-1 text-xs rounded-md border border-gray-600 text-gray-300 hover:bg-gray-700 disabled:opacity-40" title="Undo">↶ Undo</button>
+                    <button onClick={onRedo} disabled={!canRedo(tree) || isRefining} className="px-2 py-1 text-xs rounded-md border border-gray-600 text-gray-300 hover:bg-gray-700 disabled:opacity-40" title="Redo">↷ Redo</button>
+                    <button onClick={() => setShowVersions(!showVersions)} className={`px-2 py-1 text-xs rounded-md border ${showVersions ? 'border-amber-500 text-amber-400' : 'border-gray-600 text-gray-300 hover:bg-gray-700'}`}>Versions ({Object.keys(tree.nodes).length}){hasBranches ? ' · branched' : ''}</button>
+                </div>
+            </div>
+
+            {showVersions && (
+                <ul className="mb-3 max-h-48 overflow-y-auto rounded-md bg-gray-900 p-1">
+                    <VersionBranch tree={tree} node={tree.nodes[tree.rootId]} depth={0} onCheckout={onCheckout} />
+                </ul>
+            )}
+
+            <ol ref={messagesRef} className="max-h-48 overflow-y-auto space-y-2 mb-3">
+                {path.map((node) => (
+                    <li key={node.id} className="flex items-start gap-2">
+                        <button onClick={() => onCheckout(node.id)} title="Go back to this version" className={`shrink-0 rounded-sm border ${node.id === tree.currentId ? 'border-amber-500' : 'border-transparent'}`}>
+                            <img src={node.imageUrl} alt="" className="h-9 w-16 object-cover rounded-sm bg-black" />
+                        </button>
+                        <p className={`text-sm rounded-lg px-3 py-1.5 ${node.instruction ? 'bg-gray-700 text-gray-200' : 'text-gray-500 italic'}`}>{node.instruction ?? 'Original generation'}</p>
+                    </li>
+                ))}
+                {isRefining && <li className="flex items-center gap-3 text-sm pl-[4.5rem]"><span className="text-gray-400 animate-pulse">Applying your changes...</span><button type="button" onClick={onCancel} className="text-xs text-gray-500 hover:text-red-400">Cancel</button></li>}
+                {error && !isRefining && <li role="alert" className="text-sm text-red-400 pl-[4.5rem]">{error}</li>}
+            </ol>
+
+            <form onSubmit={(e) => { e.preventDefault(); submit(instruction); }} className="flex gap-2">
+                <input className="flex-1 bg-gray-900 border border-gray-700 rounded-md p-2 text-sm text-gray-200 placeholder-gray-500 focus:ring-2 focus:ring-amber-500 focus:border-amber-500" placeholder="e.g., make the background darker" value={instruction} onChange={(e) => setInstruction(e.target.value)} disabled={isRefining} />
+                <button type="submit" disabled={isRefining || !instruction.trim()} className="px-4 text-sm font-semibold rounded-md bg-amber-600 text-gray-900 hover:bg-amber-500 disabled:opacity-50">Send</button>
+            </form>
+            <div className="flex flex-wrap gap-2 mt-2">
+                {quickInstructions.map((text) => <button key={text} onClick={() => submit(text)} disabled={isRefining} className="text-xs px-2 py-1 rounded-full border border-gray-600 text-gray-400 hover:border-amber-500 hover:text-amber-400 disabled:opacity-40">{text}</button>)}
+            </div>
+        </div>
+    );
+};
+
+export default RefineChat;
@@ -0,0 +1,109 @@
+import React from 'react';
+import { TextFill, TextLayer } from '../types';
+import { layerFonts } from '../services/textLayers';
+
+type TextLayerPanelProps = {
+    layers: TextLayer[];
+    selectedId: string | null;
+    disabled?: boolean;
+    onSelect: (id: string) => void;
+    onAdd: () => void;
+    onChange: (id: string, patch: Partial<TextLayer>) => void;
+    onRemove: (id: string) => void;
+    onReorder: (id: string, direction: -1 | 1) => void;
+};
+
+const inputClass = 'w-full bg-gray-900 border border-gray-700 rounded-md p-2 text-sm text-gray-200 focus:ring-2 focus:ring-amber-500 focus:border-amber-500';
+const colorClass = 'h-8 w-10 rounded border border-gray-700 bg-gray-900 cursor-pointer';
+
+const Slider: React.FC<{ label: string; value: number; min: number; max: number; step: number; onChange: (value: number) => void; format?: (value: number) => string }> = ({ label, value, min, max, step, onChange, format }) => (
+    <label className="block text-xs text-gray-400">
+        <span className="flex justify-between"><span>{label}</span><span className="text-gray-500">{format ? format(value) : value}</span></span>
+        <input type="range" min={min} max={max} step={step} value={value} onChange={(e) => onChange(Number(e.target.value))} className="w-full accent-amber-500" />
+    </label>
+);
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const TextLayerPanel: React.FC<TextLayerPanelProps> = ({ layers, selectedId, disabled, onSelect, onAdd, onChange, onRemove, onReorder }) => {
+    const selected = layers.find((layer) => layer.id === selectedId) ?? null;
+
+    const setFill = (layer: TextLayer, fill: TextFill) => onChange(layer.id, { fill });
+    const toggleGradient = (layer: TextLayer) => {
+        const base = layer.fill.type === 'solid' ? layer.fill.color : layer.fill.from;
+        setFill(layer, layer.fill.type === 'solid'
+            ? { type: 'gradient', from: base, to: '#f59e0b', angle: 90 }
+            : { type: 'solid', color: base });
+    };
+
+    return (
+        <fieldset disabled={disabled} className="space-y-3">
+            <div className="space-y-1">
+                {/* Topmost layer first, like every other layer list. */}
+                {[...layers].reverse().map((layer) => (
+                    <div key={layer.id} className={`flex items-center gap-2 rounded-md border px-2 py-1.5 text-sm ${layer.id === selectedId ? 'border-amber-500 bg-gray-700' : 'border-gray-700 bg-gray-900'}`}>
+                        <input type="checkbox" className="accent-amber-500" checked={layer.visible} onChange={() => onChange(layer.id, { visible: !layer.visible })} aria-label="Toggle layer visibility" />
+                        <button onClick={() => onSelect(layer.id)} className="flex-1 truncate text-left text-gray-200">{layer.text.split('\n')[0] || 'Empty text'}</button>
+                        <button onClick={() => onReorder(layer.id, 1)} title="Bring forward" aria-label="Bring forward" className="text-gray-500 hover:text-gray-200">▲</button>
+                        <button onClick={() => onReorder(layer.id, -1)} title="Send backward" aria-label="Send backward" className="text-gray-500 hover:text-gray-200">▼</button>
+                        <button onClick={() => onRemove(layer.id)} title="Delete layer" aria-label="Delete layer" className="text-gray-500 hover:text-red-400">
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+                        </button>
+                    </div>
+                ))}
+                <button onClick={onAdd} className="w-full text-sm py-2 rounded-md border border-dashed border-gray-600 text-amber-500 hover:border-amber-500">+ Add text layer</button>
+            </div>
+
+            {selected && (
+                <div className="space-y-3 rounded-lg border border-gray-700 bg-gray-900 p-3">
+                    <textarea rows={2} className={inputClass} value={selected.text} onChange={(e) => onChange(selected.id, { text: e.target.value })} aria-label="Layer text" />
+                    <div className="grid grid-cols-2 gap-2">
+                        <select className={inputClass} value={selected.fontFamily} onChange={(e) => onChange(selected.id, { fontFamily: e.target.value })} aria-label="Font">
+                            {layerFonts.map((font) => <option key={font} value={font}>{font}</option>)}
+                        </select>
+                        <select className={inputClass} value={selected.fontWeight} onChange={(e) => onChange(selected.id, { fontWeight: Number(e.target.value) })} aria-label="Font weight">
+                            {[400, 600, 700, 800, 900].map((weight) => <option key={weight} value={weight}>{weight}</option>)}
+                        </select>
+                    </div>
+                    <Slider label="Size" value={selected.fontSize} min={0.03} max={0.4} step={0.005} onChange={(fontSize) => onChange(selected.id, { fontSize })} format={percent} />
+                    <Slider label="Rotation" value={selected.rotation} min={-45} max={45} step={1} onChange={(rotation) => onChange(selected.id, { rotation })} format={(v) => `${v}°`} />
+
+                    <div className="flex items-center gap-2 text-xs text-gray-400">
+                        <span className="w-12">Fill</span>
+                        {selected.fill.type === 'solid' ? (
+                            <input type="color" className={colorClass} value={selected.fill.color} onChange={(e) => setFill(selected, { type: 'solid', color: e.target.value })} aria-label="Fill colour" />
+                        ) : (
+                            <>
+                                <input type="color" className={colorClass} value={selected.fill.from} onChange={(e) => selected.fill.type === 'gradient' && setFill(selected, { ...selected.fill, from: e.target.value })} aria-label="Gradient start colour" />
+                                <input type="color" className={colorClass} value={selected.fill.to} onChange={(e) => selected.fill.type === 'gradient' && setFill(selected, { ...selected.fill, to: e.target.value })} aria-label="Gradient end colour" />
+                            </>
+                        )}
+                        <label className="ml-auto flex items-center gap-1 cursor-pointer"><input type="checkbox" className="accent-amber-500" checked={selected.fill.type === 'gradient'} onChange={() => toggleGradient(selected)} />Gradient</label>
+                    </div>
+                    {selected.fill.type === 'gradient' && (
+                        <Slider label="Gradient angle" value={selected.fill.angle} min={0} max={360} step={5} onChange={(angle) => selected.fill.type === 'gradient' && setFill(selected, { ...selected.fill, angle })} format={(v) => `${v}°`} />
+                    )}
+
+                    <div className="flex items-center gap-2 text-xs text-gray-400">
+                        <span className="w-12">Stroke</span>
+                        <input type="color" className={colorClass} value={selected.stroke.color} onChange={(e) => onChange(selected.id, { stroke: { ...selected.stroke, color: e.target.value } })} aria-label="Stroke colour" />
+                        <div className="flex-1"><Slider label="Width" value={selected.stroke.width} min={0} max={0.3} step={0.01} onChange={(width) => onChange(selected.id, { stroke: { ...selected.stroke, width } })} format={percent} /></div>
+                    </div>
+
+                    <div className="flex items-center gap-2 text-xs text-gray-400">
+                        <span className="w-12">Shadow</span>
+                        <input type="color" className={colorClass} value={selected.shadow.color} onChange={(e) => onChange(selected.id, { shadow: { ...selected.shadow, color: e.target.value } })} aria-label="Shadow colour" />
+                        <div className="flex-1"><Slider label="Blur" value={selected.shadow.blur} min={0} max={0.6} step={0.01} onChange={(blur) => onChange(selected.id, { shadow: { ...selected.shadow, blur } })} format={percent} /></div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                        <Slider label="Shadow X" value={selected.shadow.offsetX} min={-0.2} max={0.2} step={0.01} onChange={(offsetX) => onChange(selected.id, { shadow: { ...selected.shadow, offsetX } })} format={percent} />
+                        <Slider label="Shadow Y" value={selected.shadow.offsetY} min={-0.2} max={0.2} step={0.01} onChange={(offsetY) => onChange(selected.id, { shadow: { ...selected.shadow, offsetY } })} format={percent} />
+                    </div>
+                    <p className="text-xs text-gray-500">Drag the handle on the preview to position this layer.</p>
+                </div>
+            )}
+        </fieldset>
+    );
+};
+
+export default TextLayerPanel;
@@ -0,0 +1,181 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { UploadedImage } from '../types';
+import { formatBytes } from '../services/exporter';
+import { CropRect, defaultPreprocessOptions, loadUpload, PreprocessOptions, ProcessedUpload, processUpload, UploadSource } from '../services/imagePreprocessing';
+
+type UploadPreprocessorProps = {
+    file: File;
+    queuedCount: number; // files waiting after this one
+    onAdd: (image: UploadedImage) => void;
+    onSkip: () => void;
+    onCancel: () => void;
+};
+
+type Point = { x: number; y: number };
+
+const MIN_CROP = 0.05; // smaller drags are treated as clicks
+const checkerboard: React.CSSProperties = {
+    backgroundImage: 'conic-gradient(#374151 25%, #1f2937 0 50%, #374151 0 75%, #1f2937 0)',
+    backgroundSize: '16px 16px',
+};
+
+const formatLabel = (mimeType: string) => mimeType.replace('image/', '').toUpperCase();
+
+const toCrop = (a: Point, b: Point): CropRect => ({
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(b.x - a.x),
+    height: Math.abs(b.y - a.y),
+});
+
+/**
+ * Shows one upload as it will be sent to the model: upright, cropped,
+ * optionally cut out, resized and compressed. The preview on the right is the
+ * exact image that gets added, not an approximation.
+ */
+const UploadPreprocessor: React.FC<UploadPreprocessorProps> = ({ file, queuedCount, onAdd, onSkip, onCancel }) => {
+    const [source, setSource] = useState<UploadSource | null>(null);
+    const [options, setOptions] = useState<PreprocessOptions>(defaultPreprocessOptions);
+    const [result, setResult] = useState<ProcessedUpload | null>(null);
+    const [isProcessing, setIsProcessing] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [draftCrop, setDraftCrop] = useState<CropRect | null>(null);
+    const dragStart = useRef<Point | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        setSource(null);
+        setResult(null);
+        setError(null);
+        setOptions(defaultPreprocessOptions);
+        loadUpload(file)
+            .then((loaded) => { if (!cancelled) setSource(loaded); })
+            .catch((err) => { if (!cancelled) setError(err instanceof Error ? err.message : 'Could not read the image.'); });
+        return () => { cancelled = true; };
+    }, [file]);
+
+    useEffect(() => {
+        if (!source) return;
+        // Slider drags fire faster than processing finishes; only the latest run may update the preview.
+        let cancelled = false;
+        setIsProcessing(true);
+        processUpload(source, options)
+            .then((processed) => { if (!cancelled) setResult(processed); })
+            .catch((err) => { if (!cancelled) setError(err instanceof Error ? err.message : 'Could not process the image.'); })
+            .finally(() => { if (!cancelled) setIsProcessing(false); });
+        return () => { cancelled = true; };
+    }, [source, options]);
+
+    const toImagePoint = (event: React.PointerEvent<HTMLDivElement>): Point => {
+        const rect = event.currentTarget.getBoundingClientRect();
+        return {
+            x: Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width)),
+            y: Math.min(1, Math.max(0, (event.clientY - rect.top) / rect.height)),
+        };
+    };
+
+    const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+        event.currentTarget.setPointerCapture(event.pointerId);
+        dragStart.current = toImagePoint(event);
+        setDraftCrop(null);
+    };
+
+    const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+        if (dragStart.current) setDraftCrop(toCrop(dragStart.current, toImagePoint(event)));
+    };
+
+    const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+        if (!dragStart.current) return;
+        event.currentTarget.releasePointerCapture(event.pointerId);
+        const crop = toCrop(dragStart.current, toImagePoint(event));
+        dragStart.current = null;
+        setDraftCrop(null);
+        if (crop.width >= MIN_CROP && crop.height >= MIN_CROP) setOptions((current) => ({ ...current, crop }));
+    };
+
+    const shownCrop = draftCrop ?? options.crop;
+    const isReady = !!result && !isProcessing;
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-label="Prepare reference image">
+            <div className="absolute inset-0 bg-black/70" onClick={onCancel} />
+            <div className="relative w-full max-w-4xl max-h-full overflow-y-auto bg-gray-800 rounded-xl shadow-2xl">
+                <header className="flex items-center justify-between p-4 border-b border-gray-700">
+                    <div className="min-w-0">
+                        <h2 className="text-xl font-serif font-bold text-white">Prepare reference</h2>
+                        <p className="text-xs text-gray-500 truncate">{file.name || 'Pasted image'}{queuedCount > 0 && ` · ${queuedCount} more waiting`}</p>
+                    </div>
+                    <button onClick={onCancel} className="text-gray-400 hover:text-white" aria-label="Cancel upload">
+                        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+                    </button>
+                </header>
+
+                <div className="grid md:grid-cols-2 gap-4 p-4">
+                    <section>
+                        <h3 className="text-xs font-semibold text-gray-400 mb-2">Original · drag to crop to the subject</h3>
+                        {source ? (
+                            <div className="relative inline-block max-w-full overflow-hidden rounded-lg select-none">
+                                <img src={source.previewUrl} alt="Original upload" className="block max-w-full max-h-[50vh]" draggable={false} />
+                                <div className="absolute inset-0 cursor-crosshair touch-none" onPointerDown={handlePointerDown} onPointerMove={handlePointerMove} onPointerUp={handlePointerUp}>
+                                    {shownCrop && (
+                                        <div
+                                            className="absolute border-2 border-amber-400 shadow-[0_0_0_9999px_rgba(0,0,0,0.6)] pointer-events-none"
+                                            style={{ left: `${shownCrop.x * 100}%`, top: `${shownCrop.y * 100}%`, width: `${shownCrop.width * 100}%`, height: `${shownCrop.height * 100}%` }}
+                                        />
+                                    )}
+                                </div>
+                            </div>
+                        ) : (
+                            <div className="h-48 flex items-center justify-center rounded-lg bg-gray-900 text-sm text-gray-500">{error ? 'Unreadable image' : 'Reading image...'}</div>
+                        )}
+                        {source && (
+                            <div className="mt-2 text-xs text-gray-500 space-y-1">
+                                <p>{source.originalWidth}×{source.originalHeight} · {formatBytes(source.bytes)}</p>
+                                {source.orientation !== 1 && <p>Rotated upright using the camera's orientation tag.</p>}
+                            </div>
+                        )}
+                    </section>
+
+                    <section>
+                        <h3 className="text-xs font-semibold text-gray-400 mb-2">Sent to the model</h3>
+                        <div className="relative rounded-lg overflow-hidden flex items-center justify-center min-h-48" style={checkerboard}>
+                            {result && <img src={result.image.data} alt="Processed upload" className={`block max-w-full max-h-[50vh] ${isProcessing ? 'opacity-50' : ''}`} />}
+                            {isProcessing && <span className="absolute text-sm text-gray-300">Processing...</span>}
+                        </div>
+                        {result && (
+                            <div className="mt-2 text-xs text-gray-500 space-y-1">
+                                <p>{result.width}×{result.height} · {formatLabel(result.image.mimeType)} · {formatBytes(result.bytes)}</p>
+                                {!result.withinLimit && <p className="text-amber-400">Still larger than the upload limit after compression; generation may be slow.</p>}
+                                {options.removeBackground && result.backgroundRemoved === null && <p className="text-amber-400">The edges are too varied to find a plain background, so nothing was removed.</p>}
+                            </div>
+                        )}
+                    </section>
+                </div>
+
+                <div className="px-4 pb-4 space-y-3">
+                    <div className="flex flex-wrap items-center gap-4">
+                        <button type="button" onClick={() => setOptions((current) => ({ ...current, crop: null }))} disabled={!options.crop} className="px-3 py-1.5 text-xs rounded-md border border-gray-600 text-gray-300 hover:bg-gray-700 disabled:opacity-40">Reset crop</button>
+                        <label className="flex items-center gap-2 text-sm text-gray-300">
+                            <input type="checkbox" checked={options.removeBackground} onChange={(e) => setOptions((current) => ({ ...current, removeBackground: e.target.checked }))} className="accent-amber-500" />
+                            Remove plain background
+                        </label>
+                        {options.removeBackground && (
+                            <label className="flex-1 min-w-40 block text-xs text-gray-400">
+                                <span className="flex justify-between"><span>Tolerance</span><span className="text-gray-500">{Math.round(options.tolerance * 100)}%</span></span>
+                                <input type="range" min={0.02} max={0.4} step={0.01} value={options.tolerance} onChange={(e) => setOptions((current) => ({ ...current, tolerance: Number(e.target.value) }))} className="w-full accent-amber-500" />
+                            </label>
+                        )}
+                    </div>
+                    {error && <p role="alert" className="text-sm text-red-400">{error}</p>}
+                    <div className="flex justify-end gap-2">
+                        <button type="button" onClick={onCancel} className="px-4 py-2 text-sm rounded-md border border-gray-600 text-gray-300 hover:bg-gray-700">{queuedCount > 0 ? 'Cancel all' : 'Cancel'}</button>
+                        {queuedCount > 0 && <button type="button" onClick={onSkip} className="px-4 py-2 text-sm rounded-md border border-gray-600 text-gray-300 hover:bg-gray-700">Skip</button>}
+                        <button type="button" onClick={() => result && onAdd(result.image)} disabled={!isReady} className="px-4 py-2 text-sm font-semibold rounded-md bg-amber-600 text-gray-900 hover:bg-amber-500 disabled:opacity-50">Add reference</button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default UploadPreprocessor;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { Variant } from '../types';
+
+type VariantGridProps = {
+    variants: Variant[];
+    selectedId: string | null;
+    onPick: (id: string) => void;
+    onToggleFavourite: (id: string) => void;
+    onDiscard: (id: string) => void;
+};
+
+const VariantGrid: React.FC<VariantGridProps> = ({ variants, selectedId, onPick, onToggleFavourite, onDiscard }) => {
+    // Favourites float to the top so the shortlist stays visible while comparing.
+    const ordered = [...variants].sort((a, b) => Number(b.favourite) - Number(a.favourite));
+    const columns = variants.length > 4 ? 'sm:grid-cols-3' : 'sm:grid-cols-2';
+
+    return (
+        <div className="w-full h-full overflow-y-auto p-4">
+            <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-gray-200">Compare Variants <span className="text-gray-500 font-normal">({variants.length})</span></h3>
+                <p className="text-xs text-gray-500">Pick one to continue working with it.</p>
+            </div>
+            <div className={`grid grid-cols-1 ${columns} gap-4`}>
+                {ordered.map((variant) => (
+                    <div key={variant.id} className={`group relative rounded-lg overflow-hidden bg-gray-800 border-2 ${variant.id === selectedId ? 'border-amber-500' : variant.favourite ? 'border-yellow-300/60' : 'border-gray-700'}`}>
+                        <button onClick={() => onPick(variant.id)} className="block w-full" aria-label={`Pick ${variant.style} variant`}>
+                            <img src={variant.imageUrl} alt={`${variant.style} variant`} className="w-full h-auto object-contain bg-black" />
+                        </button>
+                        <div className="flex items-center justify-between px-3 py-2 bg-gray-900/80">
+                            <span className="text-xs font-semibold text-gray-300">{variant.style}</span>
+                            <div className="flex items-center gap-2">
+                                <button onClick={() => onToggleFavourite(variant.id)} title={variant.favourite ? 'Remove from favourites' : 'Favourite'} aria-label={variant.favourite ? 'Remove from favourites' : 'Favourite'} className={variant.favourite ? 'text-yellow-300' : 'text-gray-500 hover:text-yellow-300'}>
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" /></svg>
+                                </button>
+                                <button onClick={() => onDiscard(variant.id)} title="Discard" aria-label="Discard variant" className="text-gray-500 hover:text-red-400">
+                                    <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+                                </button>
+                                <button onClick={() => onPick(variant.id)} className="text-xs font-semibold px-3 py-1 rounded-md bg-amber-600 text-gray-900 hover:bg-amber-500">{variant.id === selectedId ? 'Selected' : 'Pick'}</button>
+                            </div>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default VariantGrid;
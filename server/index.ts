@@ -0,0 +1,215 @@
+import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import path from "node:path";
+import { getImageProvider } from "../services/geminiService";
+import { ProxyErrorBody } from "../services/proxyProvider";
+import { classifyError, ErrorCategory } from "../services/resilience";
+import { createRateLimiter } from "./rateLimiter";
+import { BadRequestError, routes } from "./routes";
+import { createSpendTracker } from "./spendTracker";
+
+// Same configuration as the web app and the batch CLI.
+if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+process.env.API_KEY ||= process.env.GEMINI_API_KEY;
+
+const numberFromEnv = (name: string, fallback: number): number => {
+    const value = Number(process.env[name] || fallback);
+    if (!Number.isFinite(value) || value < 0) throw new Error(`${name} must be a non-negative number.`);
+    return value;
+};
+
+const PORT = numberFromEnv('PORT', 8787);
+const API_PREFIX = '/api';
+const MAX_BODY_BYTES = 25 * 1024 * 1024; // a handful of full-resolution reference photos
+const STATIC_DIR = path.resolve('dist');
+
+const provider = getImageProvider();
+if (provider.name === 'proxy') throw new Error('The proxy server cannot use IMAGE_PROVIDER=proxy; choose gemini or mock.');
+
+const userLimit = numberFromEnv('RATE_LIMIT_PER_MINUTE', 20);
+const userLimiter = createRateLimiter({ limit: userLimit, windowMs: 60_000 });
+// Bounds everything from one address, whatever client ids it sends.
+const addressLimiter = createRateLimiter({ limit: numberFromEnv('RATE_LIMIT_PER_ADDRESS_PER_MINUTE', userLimit), windowMs: 60_000 });
+const spend = createSpendTracker({ capUsd: numberFromEnv('DAILY_SPEND_CAP_USD', 5), file: process.env.SPEND_FILE || '.proxy-spend.json' });
+
+const errorStatuses: Record<ErrorCategory, number> = {
+    safety: 422,
+    empty: 422,
+    quota: 429,
+    auth: 502,
+    network: 502,
+    server: 502,
+    timeout: 504,
+    cancelled: 499,
+    unknown: 500,
+};
+
+/** A failure the proxy itself decides on (limits, unknown routes), as opposed to one from the provider. */
+class HttpError extends Error {
+    readonly status: number;
+    readonly category: ErrorCategory;
+    readonly headers: Record<string, string>;
+    readonly retryable?: boolean;
+
+    constructor(status: number, category: ErrorCategory, message: string, options: { headers?: Record<string, string>; retryable?: boolean } = {}) {
+        super(message);
+        this.name = 'HttpError';
+        this.status = status;
+        this.category = category;
+        this.headers = options.headers ?? {};
+        this.retryable = options.retryable;
+    }
+}
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+};
+
+const readJsonBody = async (req: IncomingMessage): Promise<unknown> => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) throw new HttpError(413, 'unknown', 'The request is too large.');
+        chunks.push(chunk);
+    }
+    try {
+        return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+        throw new BadRequestError('The request body is not valid JSON.');
+    }
+};
+
+type Requester = {
+    address: string;
+    user: string; // the address, narrowed by the browser's client id when it sends one
+};
+
+/**
+ * Who to rate-limit. The browser sends a random per-install id so people
+ * behind one address are told apart, but anyone can send a fresh id, so it
+ * only ever splits an address's allowance: both the address and the
+ * address + id pair are limited. The daily cap is what bounds spend.
+ */
+const requesterOf = (req: IncomingMessage): Requester => {
+    const forwarded = process.env.TRUST_PROXY ? String(req.headers['x-forwarded-for'] ?? '').split(',')[0].trim() : '';
+    const address = `ip:${forwarded || req.socket.remoteAddress || 'unknown'}`;
+    const clientId = req.headers['x-client-id'];
+    const hasClientId = typeof clientId === 'string' && /^[\w-]{1,64}$/.test(clientId);
+    return { address, user: hasClientId ? `${address}/client:${clientId}` : address };
+};
+
+const handleApi = async (req: IncomingMessage, res: ServerResponse, route: string, { address, user }: Requester): Promise<{ status: number; costUsd: number; category?: ErrorCategory }> => {
+    const handler = routes[route];
+    if (!handler) throw new HttpError(404, 'unknown', `Unknown endpoint ${API_PREFIX}${route}.`);
+    if (req.method !== 'POST') throw new HttpError(405, 'unknown', 'Use POST.', { headers: { Allow: 'POST' } });
+
+    // Checked together so a request refused by one limiter is not counted by the other.
+    const limits = [addressLimiter.check(address), userLimiter.check(user)];
+    if (limits.some((limit) => !limit.allowed)) {
+        const seconds = Math.ceil(Math.max(...limits.map((limit) => limit.retryAfterMs)) / 1000);
+        throw new HttpError(429, 'quota', `Too many requests; try again in ${seconds}s.`, { headers: { 'Retry-After': String(seconds) } });
+    }
+    addressLimiter.take(address);
+    userLimiter.take(user);
+
+    const { costUsd, run } = handler.prepare(await readJsonBody(req), provider);
+    if (!spend.reserve(costUsd)) {
+        // Nothing frees up before midnight, so tell the client not to retry.
+        throw new HttpError(429, 'quota', 'The daily spending limit for image generation has been reached. It resets at 00:00 UTC.', { retryable: false });
+    }
+
+    // Stop the upstream call if the browser cancels or goes away.
+    const controller = new AbortController();
+    const onClose = () => { if (!res.writableEnded) controller.abort(); };
+    res.once('close', onClose);
+    try {
+        sendJson(res, 200, await run(controller.signal));
+        return { status: 200, costUsd };
+    } catch (error) {
+        spend.release(costUsd);
+        throw error;
+    } finally {
+        res.off('close', onClose);
+    }
+};
+
+const contentTypes: Record<string, string> = {
+    '.html': 'text/html; charset=utf-8',
+    '.js': 'text/javascript',
+    '.css': 'text/css',
+    '.json': 'application/json',
+    '.svg': 'image/svg+xml',
+    '.png': 'image/png',
+    '.ico': 'image/x-icon',
+};
+
+/** Serves the production build (`npm run build`) so one process hosts the whole app. */
+const serveStatic = async (pathname: string, res: ServerResponse) => {
+    try {
+        // Normalising against "/" first keeps "../" from climbing out of the build folder.
+        const file = path.join(STATIC_DIR, path.posix.normalize(`/${decodeURIComponent(pathname)}`));
+        // Paths without an extension are client-side views; they all get the app shell.
+        const target = path.extname(file) ? file : path.join(STATIC_DIR, 'index.html');
+        const body = await readFile(target);
+        res.writeHead(200, { 'Content-Type': contentTypes[path.extname(target)] ?? 'application/octet-stream' });
+        res.end(body);
+    } catch {
+        sendJson(res, 404, { error: 'Not found.' });
+    }
+};
+
+const server = createServer(async (req, res) => {
+    const startedAt = Date.now();
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    const requester = requesterOf(req);
+
+    if (!pathname.startsWith(`${API_PREFIX}/`)) {
+        await serveStatic(pathname, res);
+        return;
+    }
+
+    let outcome: { status: number; costUsd: number; category?: ErrorCategory };
+    try {
+        outcome = await handleApi(req, res, pathname.slice(API_PREFIX.length), requester);
+    } catch (error) {
+        let status: number;
+        let body: ProxyErrorBody;
+        let headers: Record<string, string> = {};
+        if (error instanceof HttpError) {
+            ({ status, headers } = error);
+            body = { error: error.message, category: error.category, retryable: error.retryable };
+        } else if (error instanceof BadRequestError) {
+            status = 400;
+            body = { error: error.message, category: 'unknown' };
+        } else {
+            const category = classifyError(error);
+            status = errorStatuses[category];
+            // Provider messages can carry internals; the client only needs the category for known failures.
+            body = { error: category === 'unknown' ? 'The image service failed unexpectedly.' : (error as Error).message, category };
+            console.error(`${req.method} ${pathname} failed:`, error);
+        }
+        if (!res.headersSent && !res.destroyed) sendJson(res, status, body, headers);
+        outcome = { status, costUsd: 0, category: body.category };
+    }
+
+    // One JSON line per API request, for whatever collects the process output.
+    console.log(JSON.stringify({
+        time: new Date(startedAt).toISOString(),
+        user: requester.user,
+        method: req.method,
+        path: pathname,
+        status: outcome.status,
+        durationMs: Date.now() - startedAt,
+        costUsd: outcome.costUsd,
+        category: outcome.category,
+        spentTodayUsd: Number(spend.snapshot().spentUsd.toFixed(3)),
+    }));
+});
+
+server.listen(PORT, () => {
+    const { spentUsd, capUsd } = spend.snapshot();
+    console.log(`Thumbnail proxy (${provider.name}) on http://localhost:${PORT}${API_PREFIX}; spent $${spentUsd.toFixed(2)} of $${capUsd.toFixed(2)} today.`);
+});
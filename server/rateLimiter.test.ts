@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createRateLimiter } from "./rateLimiter";
+
+describe('rate limiter', () => {
+    beforeEach(() => { vi.useFakeTimers(); });
+    afterEach(() => { vi.useRealTimers(); });
+
+    it('allows up to the limit per window and says when to retry', () => {
+        const limiter = createRateLimiter({ limit: 2, windowMs: 60_000 });
+        expect(limiter.take('a').allowed).toBe(true);
+        vi.advanceTimersByTime(10_000);
+        expect(limiter.take('a').allowed).toBe(true);
+        expect(limiter.take('a')).toEqual({ allowed: false, retryAfterMs: 50_000 });
+        // Other keys have their own allowance.
+        expect(limiter.take('b').allowed).toBe(true);
+    });
+
+    it('frees requests as they slide out of the window', () => {
+        const limiter = createRateLimiter({ limit: 2, windowMs: 60_000 });
+        limiter.take('a');
+        vi.advanceTimersByTime(30_000);
+        limiter.take('a');
+        vi.advanceTimersByTime(30_001);
+        expect(limiter.take('a').allowed).toBe(true);
+        expect(limiter.take('a').allowed).toBe(false);
+    });
+
+    it('checks without counting', () => {
+        const limiter = createRateLimiter({ limit: 1, windowMs: 1_000 });
+        expect(limiter.check('a').allowed).toBe(true);
+        expect(limiter.check('a').allowed).toBe(true);
+        expect(limiter.take('a').allowed).toBe(true);
+        expect(limiter.check('a').allowed).toBe(false);
+    });
+
+    it('does not count rejected requests', () => {
+        const limiter = createRateLimiter({ limit: 1, windowMs: 1_000 });
+        limiter.take('a');
+        for (let i = 0; i < 5; i++) limiter.take('a');
+        vi.advanceTimersByTime(1_001);
+        expect(limiter.take('a').allowed).toBe(true);
+    });
+});
@@ -0,0 +1,47 @@
+export type RateLimitResult = {
+    allowed: boolean;
+    retryAfterMs: number; // 0 when allowed
+};
+
+export type RateLimiter = {
+    /** Whether `key` could make a request now, without counting one. */
+    check(key: string): RateLimitResult;
+    /** Counts one request for `key` if it is within the limit. */
+    take(key: string): RateLimitResult;
+};
+
+/**
+ * Sliding-window limiter: at most `limit` requests per key in any `windowMs`.
+ * State lives in memory, which is enough for a single proxy process.
+ */
+export const createRateLimiter = ({ limit, windowMs }: { limit: number; windowMs: number }): RateLimiter => {
+    const requests = new Map<string, number[]>();
+    let lastSweep = Date.now();
+
+    // Drops users who have gone quiet so the map does not grow without bound.
+    const sweep = (now: number) => {
+        if (now - lastSweep < windowMs) return;
+        lastSweep = now;
+        for (const [key, times] of requests) {
+            if (times[times.length - 1] <= now - windowMs) requests.delete(key);
+        }
+    };
+
+    const evaluate = (key: string, consume: boolean): RateLimitResult => {
+        const now = Date.now();
+        sweep(now);
+        const recent = (requests.get(key) ?? []).filter((time) => time > now - windowMs);
+        if (recent.length >= limit) {
+            requests.set(key, recent);
+            return { allowed: false, retryAfterMs: recent[0] + windowMs - now };
+        }
+        if (consume) recent.push(now);
+        if (recent.length > 0) requests.set(key, recent);
+        return { allowed: true, retryAfterMs: 0 };
+    };
+
+    const check = (key: string): RateLimitResult => evaluate(key, false);
+    const take = (key: string): RateLimitResult => evaluate(key, true);
+
+    return { check, take };
+};
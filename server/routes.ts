@@ -0,0 +1,148 @@
+import { AspectRatio, InlineImage, InlineReference, ReferenceRole } from "../types";
+import { ImageProvider } from "../services/imageProvider";
+import { MAX_IDEAS, MAX_VARIANTS } from "../services/geminiService";
+import { ProxyImageResponse, ProxyImagesResponse, proxyRoutes } from "../services/proxyProvider";
+import { estimatedCostUsd } from "./spendTracker";
+
+/** A malformed request body; answered with 400 and never forwarded to the model. */
+export class BadRequestError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'BadRequestError';
+    }
+}
+
+export type Route = {
+    /** Validates the body and returns the estimated cost plus the call to make. */
+    prepare(body: unknown, provider: ImageProvider): { costUsd: number; run(signal: AbortSignal): Promise<unknown> };
+};
+
+const aspectRatios: AspectRatio[] = ['16:9', '1:1', '9:16', '4:3', '3:4'];
+const referenceRoles: ReferenceRole[] = ['subject', 'style', 'logo', 'background'];
+const MAX_IMAGES_PER_REQUEST = 8;
+
+const asObject = (value: unknown): Record<string, unknown> => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) throw new BadRequestError('Expected a JSON object.');
+    return value as Record<string, unknown>;
+};
+
+const requireString = (body: Record<string, unknown>, key: string, { allowEmpty = false } = {}): string => {
+    const value = body[key];
+    if (typeof value !== 'string' || (!allowEmpty && !value.trim())) throw new BadRequestError(`"${key}" must be a non-empty string.`);
+    return value;
+};
+
+const requireCount = (body: Record<string, unknown>, key: string, max: number): number => {
+    const value = body[key] ?? 1;
+    if (!Number.isInteger(value) || (value as number) < 1 || (value as number) > max) throw new BadRequestError(`"${key}" must be a whole number from 1 to ${max}.`);
+    return value as number;
+};
+
+const requireAspectRatio = (body: Record<string, unknown>): AspectRatio => {
+    const value = body.aspectRatio as AspectRatio;
+    if (!aspectRatios.includes(value)) throw new BadRequestError(`"aspectRatio" must be one of ${aspectRatios.join(', ')}.`);
+    return value;
+};
+
+const toImage = (value: unknown): InlineImage => {
+    const image = asObject(value);
+    const data = requireString(image, 'data');
+    const mimeType = requireString(image, 'mimeType');
+    if (!mimeType.startsWith('image/')) throw new BadRequestError(`Unsupported image type "${mimeType}".`);
+    return { data, mimeType };
+};
+
+const requireImages = (body: Record<string, unknown>, key: string): unknown[] => {
+    const value = body[key];
+    if (!Array.isArray(value) || value.length === 0 || value.length > MAX_IMAGES_PER_REQUEST) {
+        throw new BadRequestError(`"${key}" must be a list of 1 to ${MAX_IMAGES_PER_REQUEST} images.`);
+    }
+    return value;
+};
+
+const toReference = (value: unknown): InlineReference => {
+    const role = asObject(value).role as ReferenceRole;
+    if (!referenceRoles.includes(role)) throw new BadRequestError(`Unknown reference role "${String(role)}".`);
+    return { ...toImage(value), role };
+};
+
+const toSize = (value: unknown): { width: number; height: number } | undefined => {
+    if (value === undefined) return undefined;
+    const { width, height } = asObject(value);
+    const valid = (n: unknown) => Number.isInteger(n) && (n as number) > 0 && (n as number) <= 4096;
+    if (!valid(width) || !valid(height)) throw new BadRequestError('"size" must have a whole-number width and height up to 4096.');
+    return { width: width as number, height: height as number };
+};
+
+/** One handler per provider call. Request bodies mirror the provider requests, minus the signal. */
+export const routes: Record<string, Route> = {
+    [proxyRoutes.generate]: {
+        prepare: (raw, provider) => {
+            const body = asObject(raw);
+            const request = {
+                prompt: requireString(body, 'prompt'),
+                negativePrompt: requireString(body, 'negativePrompt', { allowEmpty: true }),
+                aspectRatio: requireAspectRatio(body),
+                numberOfImages: requireCount(body, 'numberOfImages', MAX_VARIANTS),
+            };
+            return {
+                costUsd: estimatedCostUsd.generatedImage * request.numberOfImages,
+                run: async (signal): Promise<ProxyImagesResponse> =>
+                    ({ images: await provider.generate({ ...request, signal }), model: provider.models.generate }),
+            };
+        },
+    },
+    [proxyRoutes.edit]: {
+        prepare: (raw, provider) => {
+            const body = asObject(raw);
+            const request = {
+                prompt: requireString(body, 'prompt'),
+                negativePrompt: requireString(body, 'negativePrompt', { allowEmpty: true }),
+                aspectRatio: requireAspectRatio(body),
+                references: requireImages(body, 'references').map(toReference),
+                variantIndex: Number.isInteger(body.variantIndex) ? body.variantIndex as number : undefined,
+            };
+            return {
+                costUsd: estimatedCostUsd.editedImage,
+                run: async (signal): Promise<ProxyImageResponse> =>
+                    ({ image: await provider.edit({ ...request, signal }), model: provider.models.edit }),
+            };
+        },
+    },
+    [proxyRoutes.instruct]: {
+        prepare: (raw, provider) => {
+            const body = asObject(raw);
+            const request = {
+                images: requireImages(body, 'images').map(toImage),
+                instruction: requireString(body, 'instruction'),
+                size: toSize(body.size),
+            };
+            return {
+                costUsd: estimatedCostUsd.editedImage,
+                run: async (signal): Promise<ProxyImageResponse> =>
+                    ({ image: await provider.instruct({ ...request, signal }), model: provider.models.edit }),
+            };
+        },
+    },
+    [proxyRoutes.suggestPrompt]: {
+        prepare: (raw, provider) => {
+            const currentPrompt = requireString(asObject(raw), 'currentPrompt', { allowEmpty: true });
+            return { costUsd: estimatedCostUsd.text, run: (signal) => provider.suggestPrompt(currentPrompt, signal) };
+        },
+    },
+    [proxyRoutes.suggestIdeas]: {
+        prepare: (raw, provider) => {
+            const body = asObject(raw);
+            const currentPrompt = requireString(body, 'currentPrompt', { allowEmpty: true });
+            const count = requireCount(body, 'count', MAX_IDEAS);
+            return { costUsd: estimatedCostUsd.text, run: (signal) => provider.suggestIdeas(currentPrompt, count, signal) };
+        },
+    },
+    [proxyRoutes.critique]: {
+        prepare: (raw, provider) => {
+            const body = asObject(raw);
+            const request = { image: toImage(body.image), context: requireString(body, 'context', { allowEmpty: true }) };
+            return { costUsd: estimatedCostUsd.text, run: (signal) => provider.critique({ ...request, signal }) };
+        },
+    },
+};
@@ -0,0 +1,47 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createSpendTracker } from "./spendTracker";
+
+describe('spend tracker', () => {
+    let dir: string;
+    beforeEach(async () => {
+        dir = await mkdtemp(path.join(tmpdir(), 'spend-'));
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2026-03-01T23:59:00Z'));
+    });
+    afterEach(async () => {
+        vi.useRealTimers();
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('refuses reservations that would go over the cap', () => {
+        const spend = createSpendTracker({ capUsd: 0.1 });
+        expect(spend.reserve(0.04)).toBe(true);
+        expect(spend.reserve(0.04)).toBe(true);
+        expect(spend.reserve(0.04)).toBe(false);
+        spend.release(0.04);
+        expect(spend.reserve(0.04)).toBe(true);
+        expect(spend.snapshot().spentUsd).toBeCloseTo(0.08);
+    });
+
+    it('starts a new budget at midnight UTC', () => {
+        const spend = createSpendTracker({ capUsd: 0.05 });
+        expect(spend.reserve(0.04)).toBe(true);
+        vi.setSystemTime(new Date('2026-03-02T00:00:01Z'));
+        expect(spend.snapshot()).toEqual({ day: '2026-03-02', spentUsd: 0, capUsd: 0.05 });
+        expect(spend.reserve(0.04)).toBe(true);
+    });
+
+    it('keeps the running total across restarts on the same day', async () => {
+        const file = path.join(dir, 'spend.json');
+        const first = createSpendTracker({ capUsd: 1, file });
+        first.reserve(0.3);
+        await vi.waitFor(async () => expect(JSON.parse(await readFile(file, 'utf8')).spentUsd).toBeCloseTo(0.3));
+
+        expect(createSpendTracker({ capUsd: 1, file }).snapshot().spentUsd).toBeCloseTo(0.3);
+        vi.setSystemTime(new Date('2026-03-02T08:00:00Z'));
+        expect(createSpendTracker({ capUsd: 1, file }).snapshot().spentUsd).toBe(0);
+    });
+});
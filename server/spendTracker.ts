@@ -0,0 +1,84 @@
+import { readFileSync } from "node:fs";
+import { rename, writeFile } from "node:fs/promises";
+
+/**
+ * Estimated list prices in USD. The proxy cannot see the actual bill, so the
+ * cap is enforced on these estimates; the mock is charged the same so the cap
+ * can be exercised offline.
+ */
+export const estimatedCostUsd = {
+    generatedImage: 0.04, // Imagen 4, per image
+    editedImage: 0.039, // Gemini 2.5 Flash Image, per output image
+    text: 0.001, // a short Gemini 2.5 Flash call
+};
+
+type SpendState = {
+    day: string; // UTC date, YYYY-MM-DD
+    spentUsd: number;
+};
+
+export type SpendTracker = {
+    /** Books `costUsd` against today's budget; false (and nothing booked) if it would exceed the cap. */
+    reserve(costUsd: number): boolean;
+    /** Gives back a reservation whose request failed, since failed calls are not billed. */
+    release(costUsd: number): void;
+    snapshot(): SpendState & { capUsd: number };
+};
+
+const today = (): string => new Date().toISOString().slice(0, 10);
+
+/**
+ * Tracks spend per UTC day against `capUsd`. With a `file`, the running total
+ * survives restarts so redeploying the proxy does not reset the cap.
+ */
+export const createSpendTracker = ({ capUsd, file }: { capUsd: number; file?: string }): SpendTracker => {
+    let state: SpendState = { day: today(), spentUsd: 0 };
+    if (file) {
+        try {
+            const saved = JSON.parse(readFileSync(file, 'utf8')) as SpendState;
+            if (saved.day === state.day && typeof saved.spentUsd === 'number') state = saved;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') console.warn(`Ignoring unreadable spend file ${file}:`, error);
+        }
+    }
+
+    // Writes are chained so two requests finishing together never interleave.
+    let saving = Promise.resolve();
+    const persist = () => {
+        if (!file) return;
+        const snapshot = JSON.stringify(state);
+        saving = saving
+            .then(async () => {
+                const temporary = `${file}.${process.pid}.tmp`;
+                await writeFile(temporary, snapshot);
+                await rename(temporary, file);
+            })
+            .catch((error) => console.error(`Could not save spend file ${file}:`, error));
+    };
+
+    const rollOver = () => {
+        const day = today();
+        if (state.day !== day) state = { day, spentUsd: 0 };
+    };
+
+    const reserve = (costUsd: number): boolean => {
+        rollOver();
+        if (state.spentUsd + costUsd > capUsd) return false;
+        state.spentUsd += costUsd;
+        persist();
+        return true;
+    };
+
+    const release = (costUsd: number): void => {
+        rollOver();
+        state.spentUsd = Math.max(0, state.spentUsd - costUsd);
+        persist();
+    };
+
+    const snapshot = () => {
+        rollOver();
+        return { ...state, capUsd };
+    };
+
+    return { reserve, release, snapshot };
+};
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { applyBrandToPrompt, brandWatermark, createBrandKit, mergeNegativePrompt, parseBrandKit, serializeBrandKit } from "./brandKits";
+import { layerFonts } from "./textLayers";
+
+const logo = { data: 'data:image/png;base64,AAAA', mimeType: 'image/png' };
+
+const exportFile = (kit: Record<string, unknown>, version: unknown = 1) => JSON.stringify({ type: 'bhagat-brand-kit', version, kit });
+
+describe('parseBrandKit', () => {
+    it('round-trips an exported kit under a fresh id', () => {
+        const kit = createBrandKit({ name: 'Tech Talks', palette: ['#123456'], tone: 'playful', headlineFont: layerFonts[1], logo, bannedElements: ['alcohol'] });
+        const imported = parseBrandKit(serializeBrandKit(kit));
+        const { id, updatedAt, ...rest } = imported;
+        const { id: originalId, updatedAt: originalUpdatedAt, ...original } = kit;
+        expect(id).not.toBe(originalId);
+        expect(rest).toEqual(original);
+    });
+
+    it.each([
+        ['not JSON', '{oops', 'not valid JSON'],
+        ['another kind of file', JSON.stringify({ type: 'something-else', version: 1, kit: {} }), 'not a brand kit export'],
+        ['a missing kit', JSON.stringify({ type: 'bhagat-brand-kit', version: 1 }), 'not a brand kit export'],
+        ['a newer version', exportFile({}, 2), 'newer version'],
+        ['a missing version', exportFile({}, null), 'newer version'],
+    ])('rejects %s', (_, json, message) => {
+        expect(() => parseBrandKit(json)).toThrow(message);
+    });
+
+    it('fills missing fields with defaults', () => {
+        const defaults = createBrandKit();
+        const kit = parseBrandKit(exportFile({ name: '  Cooking  ' }));
+        expect(kit).toMatchObject({
+            name: 'Cooking',
+            palette: defaults.palette,
+            tone: '',
+            headlineFont: defaults.headlineFont,
+            logo: null,
+            hostPhoto: null,
+            logoPosition: defaults.logoPosition,
+            bannedElements: [],
+        });
+    });
+
+    it('drops or clamps malformed fields', () => {
+        const kit = parseBrandKit(exportFile({
+            name: '   ',
+            palette: ['#ff0000', 'red', '#12345', 42],
+            headlineFont: 'Comic Sans',
+            logo: { data: 'javascript:alert(1)', mimeType: 'image/png' },
+            logoPosition: 'middle',
+            logoScale: 5,
+            logoOpacity: -1,
+            bannedElements: 'alcohol',
+        }));
+        expect(kit.name).toBe(createBrandKit().name);
+        // A palette with a non-string entry is not a string array, so the defaults are used.
+        expect(kit.palette).toEqual(createBrandKit().palette);
+        expect(kit.headlineFont).toBe(layerFonts[0]);
+        expect(kit.logo).toBeNull();
+        expect(kit.logoPosition).toBe('bottom-left');
+        expect(kit.logoScale).toBe(0.5);
+        expect(kit.logoOpacity).toBe(0);
+        expect(kit.bannedElements).toEqual([]);
+    });
+
+    it('keeps only valid hex colours from a palette of strings', () => {
+        expect(parseBrandKit(exportFile({ palette: ['#ff0000', 'red', '#12345', '#ABCDEF'] })).palette).toEqual(['#ff0000', '#ABCDEF']);
+    });
+});
+
+describe('applyBrandToPrompt', () => {
+    it('appends the palette and tone', () => {
+        const kit = createBrandKit({ palette: ['#000000', '#ffffff'], tone: ' energetic ' });
+        expect(applyBrandToPrompt('a host on stage', kit)).toBe('a host on stage, colour palette dominated by #000000, #ffffff, energetic tone');
+    });
+
+    it('leaves the prompt alone without a kit or without palette and tone', () => {
+        expect(applyBrandToPrompt('a host on stage', null)).toBe('a host on stage');
+        expect(applyBrandToPrompt('a host on stage', createBrandKit({ palette: [], tone: '  ' }))).toBe('a host on stage');
+    });
+});
+
+describe('mergeNegativePrompt', () => {
+    it('adds banned elements that are not already there, ignoring case', () => {
+        const kit = createBrandKit({ bannedElements: ['Watermark', 'alcohol', ' ', 'competitor logos', 'ALCOHOL'] });
+        expect(mergeNegativePrompt('blurry, watermark', kit)).toBe('blurry, watermark, alcohol, competitor logos');
+    });
+
+    it('tidies the negative prompt even without a kit', () => {
+        expect(mergeNegativePrompt(' blurry ,, text ', null)).toBe('blurry, text');
+    });
+});
+
+describe('brandWatermark', () => {
+    it('uses the logo and its placement', () => {
+        const kit = createBrandKit({ logo, logoPosition: 'top-right', logoScale: 0.2, logoOpacity: 0.5 });
+        expect(brandWatermark(kit)).toEqual({ image: logo.data, position: 'top-right', scale: 0.2, opacity: 0.5 });
+        expect(brandWatermark(createBrandKit())).toBeUndefined();
+    });
+});
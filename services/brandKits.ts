@@ -0,0 +1,109 @@
+import { BrandKit, UploadedImage, Watermark, WatermarkPosition } from "../types";
+import { BRAND_KITS, withStore } from "./database";
+import { layerFonts } from "./textLayers";
+
+const BRAND_KIT_FILE_VERSION = 1;
+const watermarkPositions: WatermarkPosition[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right'];
+
+export const createBrandKit = (overrides: Partial<BrandKit> = {}): BrandKit => ({
+    id: crypto.randomUUID(),
+    name: 'New brand kit',
+    palette: ['#f59e0b', '#111827', '#ffffff'],
+    tone: '',
+    headlineFont: layerFonts[0],
+    logo: null,
+    logoPosition: 'bottom-left',
+    logoScale: 0.14,
+    logoOpacity: 0.9,
+    hostPhoto: null,
+    bannedElements: [],
+    updatedAt: Date.now(),
+    ...overrides,
+});
+
+/** Adds the kit's palette and tone to the visual prompt. */
+export const applyBrandToPrompt = (prompt: string, kit: BrandKit | null): string => {
+    if (!kit) return prompt;
+    const additions: string[] = [];
+    if (kit.palette.length > 0) additions.push(`colour palette dominated by ${kit.palette.join(', ')}`);
+    if (kit.tone.trim()) additions.push(`${kit.tone.trim()} tone`);
+    return additions.length > 0 ? `${prompt}, ${additions.join(', ')}` : prompt;
+};
+
+/** Merges the kit's banned elements into the negative prompt, skipping duplicates. */
+export const mergeNegativePrompt = (negativePrompt: string, kit: BrandKit | null): string => {
+    const items = negativePrompt.split(',').map((item) => item.trim()).filter(Boolean);
+    const seen = new Set(items.map((item) => item.toLowerCase()));
+    for (const banned of kit?.bannedElements ?? []) {
+        const item = banned.trim();
+        if (item && !seen.has(item.toLowerCase())) {
+            items.push(item);
+            seen.add(item.toLowerCase());
+        }
+    }
+    return items.join(', ');
+};
+
+export const brandWatermark = (kit: BrandKit | null): Watermark | undefined =>
+    kit?.logo ? { image: kit.logo.data, position: kit.logoPosition, scale: kit.logoScale, opacity: kit.logoOpacity } : undefined;
+
+export const listBrandKits = async (): Promise<BrandKit[]> => {
+    const kits = await withStore(BRAND_KITS, 'readonly', (store) => store.getAll() as IDBRequest<BrandKit[]>);
+    return (kits ?? []).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveBrandKit = async (kit: BrandKit): Promise<void> => {
+    await withStore(BRAND_KITS, 'readwrite', (store) => store.put({ ...kit, updatedAt: Date.now() }));
+};
+
+export const deleteBrandKit = async (id: string): Promise<void> => {
+    await withStore(BRAND_KITS, 'readwrite', (store) => store.delete(id));
+};
+
+export const serializeBrandKit = (kit: BrandKit): string =>
+    JSON.stringify({ type: 'bhagat-brand-kit', version: BRAND_KIT_FILE_VERSION, kit }, null, 2);
+
+const isUploadedImage = (value: unknown): value is UploadedImage =>
+    typeof value === 'object' && value !== null
+    && typeof (value as UploadedImage).data === 'string' && (value as UploadedImage).data.startsWith('data:image/')
+    && typeof (value as UploadedImage).mimeType === 'string';
+
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+/**
+ * Builds a kit from untrusted data, e.g. an import. Unknown or malformed fields
+ * fall back to defaults, and the kit gets a fresh id.
+ */
+export const normalizeBrandKit = (kit: Record<string, unknown>): BrandKit => {
+    const defaults = createBrandKit();
+    return createBrandKit({
+        name: typeof kit.name === 'string' && kit.name.trim() ? kit.name.trim() : defaults.name,
+        palette: isStringArray(kit.palette) ? kit.palette.filter((c) => /^#[0-9a-f]{6}$/i.test(c)) : defaults.palette,
+        tone: typeof kit.tone === 'string' ? kit.tone : '',
+        headlineFont: typeof kit.headlineFont === 'string' && layerFonts.includes(kit.headlineFont) ? kit.headlineFont : defaults.headlineFont,
+        logo: isUploadedImage(kit.logo) ? kit.logo : null,
+        logoPosition: watermarkPositions.includes(kit.logoPosition as WatermarkPosition) ? kit.logoPosition as WatermarkPosition : defaults.logoPosition,
+        logoScale: typeof kit.logoScale === 'number' ? Math.min(0.5, Math.max(0.02, kit.logoScale)) : defaults.logoScale,
+        logoOpacity: typeof kit.logoOpacity === 'number' ? Math.min(1, Math.max(0, kit.logoOpacity)) : defaults.logoOpacity,
+        hostPhoto: isUploadedImage(kit.hostPhoto) ? kit.hostPhoto : null,
+        bannedElements: isStringArray(kit.bannedElements) ? kit.bannedElements : [],
+    });
+};
+
+/** Parses an exported brand kit file; the kit always gets a fresh id so imports never overwrite. */
+export const parseBrandKit = (json: string): BrandKit => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(json);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+    const envelope = parsed as { type?: unknown; version?: unknown; kit?: Record<string, unknown> };
+    if (envelope?.type !== 'bhagat-brand-kit' || typeof envelope.kit !== 'object' || envelope.kit === null) {
+        throw new Error('The file is not a brand kit export.');
+    }
+    if (typeof envelope.version !== 'number' || envelope.version > BRAND_KIT_FILE_VERSION) {
+        throw new Error('This brand kit was exported by a newer version of the app.');
+    }
+    return normalizeBrandKit(envelope.kit);
+};
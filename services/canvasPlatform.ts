@@ -0,0 +1,38 @@
+/**
+ * The handful of canvas primitives the rendering code needs from its host.
+ * Browsers use the DOM; the batch CLI swaps in a Node implementation so the
+ * same renderer and exporter run headless.
+ */
+export type CanvasPlatform = {
+    createCanvas(width: number, height: number): HTMLCanvasElement;
+    loadImage(src: string): Promise<HTMLImageElement>;
+    toBlob(canvas: HTMLCanvasElement, format: string, quality?: number): Promise<Blob>;
+};
+
+const browserPlatform: CanvasPlatform = {
+    createCanvas: (width, height) => {
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        return canvas;
+    },
+    loadImage: (src) => new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error('Failed to load image for canvas rendering.'));
+        image.crossOrigin = 'anonymous';
+        image.src = src;
+    }),
+    toBlob: (canvas, format, quality) => new Promise((resolve, reject) => {
+        canvas.toBlob((blob) => blob ? resolve(blob) : reject(new Error(`This browser cannot encode ${format}.`)), format, quality);
+    }),
+};
+
+let activePlatform: CanvasPlatform = browserPlatform;
+
+export const getCanvasPlatform = (): CanvasPlatform => activePlatform;
+
+/** Replaces the browser implementation, e.g. with a server-side canvas. `null` restores the default. */
+export const setCanvasPlatform = (platform: CanvasPlatform | null): void => {
+    activePlatform = platform ?? browserPlatform;
+};
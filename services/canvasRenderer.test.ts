@@ -0,0 +1,98 @@
+import { createCanvas } from "@napi-rs/canvas";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { nodeCanvasPlatform } from "../cli/nodeCanvas";
+import { AspectRatio } from "../types";
+import { setCanvasPlatform } from "./canvasPlatform";
+import { composeCanvas, coverRect, croppedSize, defaultFit, paddedSize, ratioOf } from "./canvasRenderer";
+
+const aspectRatios: AspectRatio[] = ['16:9', '1:1', '9:16', '4:3', '3:4'];
+
+describe('paddedSize', () => {
+    // A square and a wide source: one needs padding on the sides, the other above and below.
+    it.each<[AspectRatio, number, number]>([
+        ['16:9', 1778, 1000],
+        ['1:1', 1000, 1000],
+        ['9:16', 1000, 1778],
+        ['4:3', 1333, 1000],
+        ['3:4', 1000, 1333],
+    ])('pads a 1000×1000 image to %s as %i×%i', (ratio, width, height) => {
+        expect(paddedSize(1000, 1000, ratio)).toEqual({ width, height });
+    });
+
+    it.each(aspectRatios)('keeps the whole 1280×720 image inside a %s canvas', (ratio) => {
+        const { width, height } = paddedSize(1280, 720, ratio);
+        expect(width).toBeGreaterThanOrEqual(1280);
+        expect(height).toBeGreaterThanOrEqual(720);
+        expect(width / height).toBeCloseTo(ratioOf(ratio), 2);
+        // Only one axis grows.
+        expect(width === 1280 || height === 720).toBe(true);
+    });
+});
+
+describe('croppedSize', () => {
+    it.each(aspectRatios)('fits the largest %s window inside a 1280×720 image', (ratio) => {
+        const { width, height } = croppedSize(1280, 720, ratio);
+        expect(width).toBeLessThanOrEqual(1280);
+        expect(height).toBeLessThanOrEqual(720);
+        expect(width / height).toBeCloseTo(ratioOf(ratio), 2);
+        expect(width === 1280 || height === 720).toBe(true);
+    });
+});
+
+describe('coverRect', () => {
+    // A 1600×900 image cropped into a 900×900 square: 700px of width must be cut.
+    it.each([
+        [0, 0],
+        [0.5, -350],
+        [1, -700],
+    ])('slides the crop to the focal point at x = %s', (x, expectedX) => {
+        const rect = coverRect(1600, 900, 900, 900, { x, y: 0.5 });
+        expect(rect).toEqual({ x: expectedX, y: 0, width: 1600, height: 900 });
+    });
+
+    it.each([
+        [0, 0],
+        [0.5, -350],
+        [1, -700],
+    ])('slides the crop to the focal point at y = %s', (y, expectedY) => {
+        const rect = coverRect(900, 1600, 900, 900, { x: 0.5, y });
+        expect(rect).toEqual({ x: 0, y: expectedY, width: 900, height: 1600 });
+    });
+
+    it('scales up so the canvas is always covered', () => {
+        const rect = coverRect(100, 50, 400, 400, { x: 0.2, y: 0.9 });
+        expect(rect.height).toBe(400);
+        expect(rect.width).toBe(800);
+        expect(rect.x).toBeLessThanOrEqual(0);
+        expect(rect.x + rect.width).toBeGreaterThanOrEqual(400);
+        expect(rect.y).toBe(0);
+    });
+});
+
+describe('composeCanvas', () => {
+    beforeAll(() => setCanvasPlatform(nodeCanvasPlatform));
+    afterAll(() => setCanvasPlatform(null));
+
+    const whiteSquare = () => {
+        const canvas = createCanvas(200, 200);
+        const ctx = canvas.getContext('2d');
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, 200, 200);
+        return canvas.toDataURL('image/png');
+    };
+
+    const leftEdge = (canvas: HTMLCanvasElement) => Array.from(canvas.getContext('2d')!.getImageData(2, canvas.height / 2, 1, 1).data.slice(0, 3));
+
+    it('fills the padding with a blur of the image by default', async () => {
+        expect(defaultFit.mode).toBe('blur');
+        const canvas = await composeCanvas(whiteSquare(), '16:9');
+        expect(canvas.width / canvas.height).toBeCloseTo(16 / 9, 2);
+        // The blur is dimmed a little so the image itself stands out.
+        expect(leftEdge(canvas).every((channel) => channel > 150 && channel < 255)).toBe(true);
+    });
+
+    it('still letterboxes in black when asked to', async () => {
+        const canvas = await composeCanvas(whiteSquare(), '16:9', { fit: { ...defaultFit, mode: 'letterbox' } });
+        expect(leftEdge(canvas)).toEqual([0, 0, 0]);
+    });
+});
@@ -0,0 +1,224 @@
+import { AspectRatio, FitSettings, TextLayer, Watermark } from "../types";
+import { getCanvasPlatform } from "./canvasPlatform";
+import { drawTextLayers, loadLayerFonts } from "./textLayers";
+
+export type OutputSize = { width: number; height: number };
+
+export type RenderOptions = {
+    layers?: TextLayer[];
+    fit?: FitSettings;
+    watermark?: Watermark;
+};
+
+type Rect = { x: number; y: number; width: number; height: number };
+
+export const defaultFit: FitSettings = { mode: 'blur', focalPoint: { x: 0.5, y: 0.5 } };
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => getCanvasPlatform().loadImage(src);
+
+export const ratioOf = (aspectRatio: AspectRatio): number => {
+    const [w, h] = aspectRatio.split(':').map(Number);
+    return w / h;
+};
+
+/** The smallest canvas of the target ratio that holds the whole image at its native size. */
+export const paddedSize = (originalW: number, originalH: number, targetAspectRatio: AspectRatio): OutputSize => {
+    const targetRatio = ratioOf(targetAspectRatio);
+    const originalRatio = originalW / originalH;
+
+    let canvasW = originalW;
+    let canvasH = originalH;
+
+    if (Math.abs(targetRatio - originalRatio) > 0.01) {
+         if (targetRatio > originalRatio) {
+            canvasH = originalH;
+            canvasW = originalH * targetRatio;
+        } else {
+            canvasW = originalW;
+            canvasH = originalW / targetRatio;
+        }
+    }
+    return { width: Math.round(canvasW), height: Math.round(canvasH) };
+};
+
+/** The largest region of the target ratio that fits inside the image. */
+export const croppedSize = (originalW: number, originalH: number, targetAspectRatio: AspectRatio): OutputSize => {
+    const targetRatio = ratioOf(targetAspectRatio);
+    return targetRatio > originalW / originalH
+        ? { width: originalW, height: Math.round(originalW / targetRatio) }
+        : { width: Math.round(originalH * targetRatio), height: originalH };
+};
+
+const containRect = (imageW: number, imageH: number, width: number, height: number): Rect => {
+    const scale = Math.min(width / imageW, height / imageH);
+    const w = imageW * scale;
+    const h = imageH * scale;
+    return { x: (width - w) / 2, y: (height - h) / 2, width: w, height: h };
+};
+
+/** Covers the canvas, sliding the image so the focal point stays as central as the edges allow. */
+export const coverRect = (imageW: number, imageH: number, width: number, height: number, focalPoint = { x: 0.5, y: 0.5 }): Rect => {
+    const scale = Math.max(width / imageW, height / imageH);
+    const w = imageW * scale;
+    const h = imageH * scale;
+    const clamp = (value: number, min: number) => Math.min(0, Math.max(min, value));
+    return { x: clamp(width / 2 - focalPoint.x * w, width - w), y: clamp(height / 2 - focalPoint.y * h, height - h), width: w, height: h };
+};
+
+const drawInRect = (ctx: CanvasRenderingContext2D, image: CanvasImageSource, rect: Rect) => {
+    ctx.drawImage(image, Math.round(rect.x), Math.round(rect.y), Math.round(rect.width), Math.round(rect.height));
+};
+
+const averageColor = (image: HTMLImageElement, sx: number, sy: number, sw: number, sh: number): string => {
+    const sample = getCanvasPlatform().createCanvas(8, 8);
+    const ctx = sample.getContext('2d');
+    if (!ctx) return '#000000';
+    ctx.drawImage(image, sx, sy, Math.max(1, sw), Math.max(1, sh), 0, 0, 8, 8);
+    const { data } = ctx.getImageData(0, 0, 8, 8);
+    let r = 0, g = 0, b = 0;
+    for (let i = 0; i < data.length; i += 4) {
+        r += data[i];
+        g += data[i + 1];
+        b += data[i + 2];
+    }
+    const count = data.length / 4;
+    return `rgb(${Math.round(r / count)}, ${Math.round(g / count)}, ${Math.round(b / count)})`;
+};
+
+/** Colours of the two image edges that face the padding: [left, right] or [top, bottom]. */
+const edgeColors = (image: HTMLImageElement, horizontalPadding: boolean): [string, string] => {
+    const { width: w, height: h } = image;
+    const strip = Math.max(1, Math.round((horizontalPadding ? w : h) * 0.03));
+    return horizontalPadding
+        ? [averageColor(image, 0, 0, strip, h), averageColor(image, w - strip, 0, strip, h)]
+        : [averageColor(image, 0, 0, w, strip), averageColor(image, 0, h - strip, w, strip)];
+};
+
+/**
+ * Blurs by downscaling and upscaling with smoothing, which (unlike
+ * `ctx.filter`) works in every browser.
+ */
+const drawBlurredCover = (ctx: CanvasRenderingContext2D, image: HTMLImageElement, width: number, height: number) => {
+    const small = getCanvasPlatform().createCanvas(Math.max(1, Math.round(width / 24)), Math.max(1, Math.round(height / 24)));
+    const smallCtx = small.getContext('2d');
+    if (!smallCtx) return;
+    drawInRect(smallCtx, image, coverRect(image.width, image.height, small.width, small.height));
+    ctx.imageSmoothingEnabled = true;
+    ctx.drawImage(small, 0, 0, width, height);
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.25)';
+    ctx.fillRect(0, 0, width, height);
+};
+
+/** Stretches the outermost pixel row/column of the image across the padding. */
+const drawExtendedEdges = (ctx: CanvasRenderingContext2D, image: HTMLImageElement, rect: Rect, width: number, height: number) => {
+    const { width: w, height: h } = image;
+    if (rect.x > 0) {
+        ctx.drawImage(image, 0, 0, 1, h, 0, rect.y, Math.ceil(rect.x), rect.height);
+        ctx.drawImage(image, w - 1, 0, 1, h, Math.floor(rect.x + rect.width), rect.y, width - Math.floor(rect.x + rect.width), rect.height);
+    }
+    if (rect.y > 0) {
+        ctx.drawImage(image, 0, 0, w, 1, rect.x, 0, rect.width, Math.ceil(rect.y));
+        ctx.drawImage(image, 0, h - 1, w, 1, rect.x, Math.floor(rect.y + rect.height), rect.width, height - Math.floor(rect.y + rect.height));
+    }
+};
+
+const drawFitted = (ctx: CanvasRenderingContext2D, image: HTMLImageElement, width: number, height: number, fit: FitSettings) => {
+    // AI outpainting swaps the source image upstream; whatever reaches us is cropped to size.
+    if (fit.mode === 'crop' || fit.mode === 'outpaint') {
+        drawInRect(ctx, image, coverRect(image.width, image.height, width, height, fit.focalPoint));
+        return;
+    }
+
+    const rect = containRect(image.width, image.height, width, height);
+    const horizontalPadding = rect.x > rect.y;
+
+    switch (fit.mode) {
+        case 'blur':
+            drawBlurredCover(ctx, image, width, height);
+            break;
+        case 'extend':
+            drawExtendedEdges(ctx, image, rect, width, height);
+            break;
+        case 'solid': {
+            const [first, second] = edgeColors(image, horizontalPadding);
+            // Pad both sides with their own edge colour so each seam disappears.
+            ctx.fillStyle = first;
+            ctx.fillRect(0, 0, horizontalPadding ? width / 2 : width, horizontalPadding ? height : height / 2);
+            ctx.fillStyle = second;
+            ctx.fillRect(horizontalPadding ? width / 2 : 0, horizontalPadding ? 0 : height / 2, horizontalPadding ? width / 2 : width, horizontalPadding ? height : height / 2);
+            break;
+        }
+        case 'gradient': {
+            const [first, second] = edgeColors(image, horizontalPadding);
+            const gradient = horizontalPadding ? ctx.createLinearGradient(0, 0, width, 0) : ctx.createLinearGradient(0, 0, 0, height);
+            gradient.addColorStop(0, '#000000');
+            gradient.addColorStop(0.5 * (horizontalPadding ? rect.x / width : rect.y / height), first);
+            gradient.addColorStop(1 - 0.5 * (horizontalPadding ? rect.x / width : rect.y / height), second);
+            gradient.addColorStop(1, '#000000');
+            ctx.fillStyle = gradient;
+            ctx.fillRect(0, 0, width, height);
+            break;
+        }
+        default:
+            // Background for padding
+            ctx.fillStyle = '#000000';
+            ctx.fillRect(0, 0, width, height);
+    }
+    drawInRect(ctx, image, rect);
+};
+
+const WATERMARK_MARGIN = 0.03; // fraction of the shorter side
+
+const drawWatermark = (ctx: CanvasRenderingContext2D, logo: HTMLImageElement, watermark: Watermark, width: number, height: number) => {
+    const logoW = width * watermark.scale;
+    const logoH = logoW * (logo.height / logo.width);
+    const margin = Math.min(width, height) * WATERMARK_MARGIN;
+    const x = watermark.position.endsWith('left') ? margin : width - logoW - margin;
+    const y = watermark.position.startsWith('top') ? margin : height - logoH - margin;
+    ctx.save();
+    ctx.globalAlpha = watermark.opacity;
+    ctx.drawImage(logo, Math.round(x), Math.round(y), Math.round(logoW), Math.round(logoH));
+    ctx.restore();
+};
+
+/**
+ * Fits the image into a canvas using the chosen fill mode and paints the
+ * text layers and any logo watermark on top. `size` is either an aspect ratio (canvas sized from the
+ * image) or exact pixel dimensions.
+ */
+export const composeCanvas = async (
+    base64Image: string,
+    size: AspectRatio | OutputSize,
+    { layers = [], fit = defaultFit, watermark }: RenderOptions = {}
+): Promise<HTMLCanvasElement> => {
+    const [image, logo] = await Promise.all([
+        loadImage(base64Image),
+        watermark ? loadImage(watermark.image) : Promise.resolve(null),
+        loadLayerFonts(layers),
+    ]);
+    const isCropping = fit.mode === 'crop' || fit.mode === 'outpaint';
+    const { width, height } = typeof size !== 'string'
+        ? size
+        : isCropping ? croppedSize(image.width, image.height, size) : paddedSize(image.width, image.height, size);
+
+    const canvas = getCanvasPlatform().createCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+
+    ctx.imageSmoothingQuality = 'high';
+    drawFitted(ctx, image, width, height, fit);
+
+    drawTextLayers(ctx, layers, canvas.width, canvas.height);
+    if (logo && watermark) drawWatermark(ctx, logo, watermark, canvas.width, canvas.height);
+    return canvas;
+};
+
+/** Renders the preview shown in the app, returning it as a JPEG data URL. */
+export const drawCanvas = async (
+    base64Image: string,
+    targetAspectRatio: AspectRatio,
+    options: RenderOptions = {}
+): Promise<string> => {
+    const canvas = await composeCanvas(base64Image, targetAspectRatio, options);
+    return canvas.toDataURL('image/jpeg');
+};
@@ -0,0 +1,64 @@
+const DB_NAME = 'bhagat-thumbnail-generator';
+const DB_VERSION = 3;
+export const GENERATIONS = 'generations';
+export const PROJECTS = 'projects';
+export const BRAND_KITS = 'brandKits';
+export const PROMPT_TEMPLATES = 'promptTemplates';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB is not available in this environment.'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            // Each store is created only if missing, so upgrading from any older version is safe.
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(GENERATIONS)) {
+                    const store = db.createObjectStore(GENERATIONS, { keyPath: 'id' });
+                    store.createIndex('createdAt', 'createdAt');
+                    store.createIndex('projectId', 'projectId');
+                }
+                if (!db.objectStoreNames.contains(PROJECTS)) {
+                    db.createObjectStore(PROJECTS, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(BRAND_KITS)) {
+                    db.createObjectStore(BRAND_KITS, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(PROMPT_TEMPLATES)) {
+                    db.createObjectStore(PROMPT_TEMPLATES, { keyPath: 'id' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error ?? new Error('Could not open the local database.'));
+        });
+        // Allow a later call to retry if opening failed (e.g. private browsing).
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+/** Settles once the transaction has committed, or fails if it errors or is aborted. */
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error ?? new Error('IndexedDB transaction failed.'));
+        transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction was aborted.'));
+    });
+
+export const withStore = async <T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(storeName, mode);
+    const done = transactionDone(transaction);
+    const request = action(transaction.objectStore(storeName));
+    await done;
+    return request ? request.result : undefined;
+};
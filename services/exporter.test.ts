@@ -0,0 +1,84 @@
+import { createCanvas } from "@napi-rs/canvas";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { nodeCanvasPlatform } from "../cli/nodeCanvas";
+import { setCanvasPlatform } from "./canvasPlatform";
+import { encodeWithinLimit, ExportPreset, exportForPreset } from "./exporter";
+
+/** Seeded per-pixel noise: compresses badly, so JPEG size tracks quality closely. */
+const noisyCanvas = (width: number, height: number) => {
+    const canvas = createCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    const pixels = ctx.createImageData(width, height);
+    let seed = 42;
+    for (let i = 0; i < pixels.data.length; i++) {
+        seed = (seed * 1103515245 + 12345) >>> 0;
+        pixels.data[i] = i % 4 === 3 ? 255 : seed >>> 24;
+    }
+    ctx.putImageData(pixels, 0, 0);
+    return canvas;
+};
+
+const canvas = () => noisyCanvas(320, 180) as unknown as HTMLCanvasElement;
+
+describe('encodeWithinLimit', () => {
+    beforeAll(() => setCanvasPlatform(nodeCanvasPlatform));
+    afterAll(() => setCanvasPlatform(null));
+
+    it('keeps the top quality when there is no limit or it already fits', async () => {
+        const unlimited = await encodeWithinLimit(canvas(), 'image/jpeg', null);
+        expect(unlimited).toMatchObject({ quality: 0.95, withinLimit: true });
+        const roomy = await encodeWithinLimit(canvas(), 'image/jpeg', unlimited.blob.size);
+        expect(roomy.quality).toBe(0.95);
+    });
+
+    it('lowers the quality until the file fits', async () => {
+        const best = await encodeWithinLimit(canvas(), 'image/jpeg', null);
+        const maxBytes = Math.round(best.blob.size * 0.6);
+        const result = await encodeWithinLimit(canvas(), 'image/jpeg', maxBytes);
+        expect(result.withinLimit).toBe(true);
+        expect(result.blob.size).toBeLessThanOrEqual(maxBytes);
+        expect(result.quality).toBeLessThan(0.95);
+        expect(result.quality).toBeGreaterThanOrEqual(0.4);
+    });
+
+    it('drops further for a tighter limit', async () => {
+        const best = await encodeWithinLimit(canvas(), 'image/jpeg', null);
+        const loose = await encodeWithinLimit(canvas(), 'image/jpeg', Math.round(best.blob.size * 0.7));
+        const tight = await encodeWithinLimit(canvas(), 'image/jpeg', Math.round(best.blob.size * 0.4));
+        expect(tight.quality).toBeLessThan(loose.quality ?? 0);
+        expect(tight.blob.size).toBeLessThan(loose.blob.size);
+    });
+
+    it('falls back to the lowest quality and reports it when nothing fits', async () => {
+        const result = await encodeWithinLimit(canvas(), 'image/jpeg', 100);
+        expect(result).toMatchObject({ quality: 0.4, withinLimit: false });
+        expect(result.blob.size).toBeGreaterThan(100);
+    });
+
+    it('encodes PNG once and only reports whether it fits', async () => {
+        const fits = await encodeWithinLimit(canvas(), 'image/png', null);
+        expect(fits).toMatchObject({ quality: null, withinLimit: true });
+        const tooBig = await encodeWithinLimit(canvas(), 'image/png', 100);
+        expect(tooBig).toMatchObject({ quality: null, withinLimit: false });
+        expect(tooBig.blob.size).toBe(fits.blob.size);
+    });
+});
+
+describe('exportForPreset', () => {
+    beforeAll(() => setCanvasPlatform(nodeCanvasPlatform));
+    afterAll(() => setCanvasPlatform(null));
+
+    it('renders at the preset size and stays under its byte limit', async () => {
+        const source = noisyCanvas(640, 360).toDataURL('image/png');
+        const unlimited: ExportPreset = { id: 'test', label: 'Test', width: 320, height: 180, format: 'image/jpeg', maxBytes: null };
+        const full = await exportForPreset(source, {}, unlimited);
+        const preset = { ...unlimited, maxBytes: Math.round(full.blob.size * 0.5) };
+
+        const result = await exportForPreset(source, {}, preset, undefined, 'episode-12');
+        expect(result.filename).toBe('episode-12-test.jpg');
+        expect(result.blob.type).toBe('image/jpeg');
+        expect(result.blob.size).toBeLessThanOrEqual(preset.maxBytes);
+        expect(result.withinLimit).toBe(true);
+        expect(result.quality).toBeLessThan(full.quality ?? 0);
+    });
+});
@@ -0,0 +1,134 @@
+import { composeCanvas, RenderOptions } from "./canvasRenderer";
+import { getCanvasPlatform } from "./canvasPlatform";
+import { createZip } from "./zip";
+
+export type ExportFormat = 'image/jpeg' | 'image/png' | 'image/webp';
+
+export type ExportPreset = {
+    id: string;
+    label: string;
+    width: number;
+    height: number;
+    format: ExportFormat;
+    maxBytes: number | null;
+};
+
+const MB = 1024 * 1024;
+
+export const exportPresets: ExportPreset[] = [
+    { id: 'youtube', label: 'YouTube', width: 1280, height: 720, format: 'image/jpeg', maxBytes: 2 * MB },
+    { id: 'youtube-shorts', label: 'YouTube Shorts', width: 1080, height: 1920, format: 'image/jpeg', maxBytes: 2 * MB },
+    { id: 'instagram-square', label: 'Instagram Square', width: 1080, height: 1080, format: 'image/jpeg', maxBytes: 8 * MB },
+    { id: 'instagram-portrait', label: 'Instagram Portrait', width: 1080, height: 1350, format: 'image/jpeg', maxBytes: 8 * MB },
+    { id: 'x-card', label: 'X / Twitter Card', width: 1200, height: 628, format: 'image/jpeg', maxBytes: 5 * MB },
+    { id: 'podcast', label: 'Podcast Cover', width: 3000, height: 3000, format: 'image/jpeg', maxBytes: 512 * 1024 },
+];
+
+export const formatExtensions: Record<ExportFormat, string> = {
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/webp': 'webp',
+};
+
+export type ExportResult = {
+    preset: ExportPreset;
+    format: ExportFormat;
+    blob: Blob;
+    filename: string;
+    quality: number | null; // null for lossless formats
+    withinLimit: boolean;
+};
+
+const MAX_QUALITY = 0.95;
+const MIN_QUALITY = 0.4;
+const QUALITY_STEPS = 6;
+
+const canvasToBlob = (canvas: HTMLCanvasElement, format: ExportFormat, quality?: number): Promise<Blob> =>
+    getCanvasPlatform().toBlob(canvas, format, quality);
+
+/**
+ * Encodes at the highest quality that fits `maxBytes`, binary-searching the
+ * lossy quality setting. PNG has no quality knob, so it is encoded once and
+ * reported as over the limit if it does not fit.
+ */
+export const encodeWithinLimit = async (canvas: HTMLCanvasElement, format: ExportFormat, maxBytes: number | null) => {
+    if (format === 'image/png') {
+        const blob = await canvasToBlob(canvas, format);
+        return { blob, quality: null, withinLimit: maxBytes === null || blob.size <= maxBytes };
+    }
+
+    const best = await canvasToBlob(canvas, format, MAX_QUALITY);
+    if (maxBytes === null || best.size <= maxBytes) {
+        return { blob: best, quality: MAX_QUALITY, withinLimit: true };
+    }
+
+    let low = MIN_QUALITY;
+    let high = MAX_QUALITY;
+    let fitting: { blob: Blob; quality: number } | null = null;
+    for (let step = 0; step < QUALITY_STEPS; step++) {
+        const quality = (low + high) / 2;
+        const blob = await canvasToBlob(canvas, format, quality);
+        if (blob.size <= maxBytes) {
+            fitting = { blob, quality };
+            low = quality;
+        } else {
+            high = quality;
+        }
+    }
+    if (fitting) {
+        return { ...fitting, withinLimit: true };
+    }
+    const smallest = await canvasToBlob(canvas, format, MIN_QUALITY);
+    return { blob: smallest, quality: MIN_QUALITY, withinLimit: smallest.size <= maxBytes };
+};
+
+export const exportForPreset = async (
+    rawImageUrl: string,
+    options: RenderOptions,
+    preset: ExportPreset,
+    format: ExportFormat = preset.format,
+    baseName: string = 'bhagat-thumbnail'
+): Promise<ExportResult> => {
+    const canvas = await composeCanvas(rawImageUrl, { width: preset.width, height: preset.height }, options);
+    const encoded = await encodeWithinLimit(canvas, format, preset.maxBytes);
+    return {
+        preset,
+        format,
+        ...encoded,
+        filename: `${baseName}-${preset.id}.${formatExtensions[format]}`,
+    };
+};
+
+/** Exports the design to every preset and bundles the files into one zip. */
+export const exportAllPresets = async (
+    rawImageUrl: string,
+    options: RenderOptions,
+    format?: ExportFormat,
+    baseName: string = 'bhagat-thumbnail'
+): Promise<{ zip: Blob; results: ExportResult[] }> => {
+    const results: ExportResult[] = [];
+    // Sequential on purpose: a 3000×3000 canvas per preset adds up quickly in memory.
+    for (const preset of exportPresets) {
+        results.push(await exportForPreset(rawImageUrl, options, preset, format ?? preset.format, baseName));
+    }
+    const entries = await Promise.all(results.map(async (result) => ({
+        name: result.filename,
+        data: new Uint8Array(await result.blob.arrayBuffer()),
+    })));
+    return { zip: new Blob([createZip(entries)], { type: 'application/zip' }), results };
+};
+
+export const downloadBlob = (blob: Blob, filename: string): void => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    // Give the browser a moment to start the download before revoking.
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const formatBytes = (bytes: number): string =>
+    bytes >= MB ? `${(bytes / MB).toFixed(2)} MB` : `${Math.round(bytes / 1024)} KB`;
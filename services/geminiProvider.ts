@@ -0,0 +1,210 @@
+import { GoogleGenAI, Modality, Type } from "@google/genai";
+import { InlineImage, InlineReference, PromptIdea, PromptSuggestion, ReferenceRole, ThumbnailCritique } from "../types";
+import { CritiqueRequest, EditRequest, GenerateRequest, ImageProvider, InstructRequest } from "./imageProvider";
+import { GenerationError } from "./resilience";
+
+export const EDIT_MODEL = 'gemini-2.5-flash-image-preview';
+export const GENERATE_MODEL = 'imagen-4.0-generate-001';
+export const TEXT_MODEL = 'gemini-2.5-flash';
+
+const roleInstructions: Record<ReferenceRole, string> = {
+    subject: "the person to feature. **Preserve their exact facial features, hairstyle, and unique likeness with the highest possible fidelity.** Do not change their appearance or identity.",
+    style: "a style reference. Match its colour palette, lighting and artistic treatment, but do not copy its content or people.",
+    logo: "a logo. Reproduce it exactly as provided, with no changes to its shapes, lettering or colours; keep it small, clearly legible and away from faces.",
+    background: "the background plate. Use it as the environment of the scene and keep its recognisable features.",
+};
+
+const buildEditingInstruction = (prompt: string, references: InlineReference[]): string => {
+    if (references.length === 1 && references[0].role === 'subject') {
+        return `You are an expert digital artist specializing in photorealistic character integration. Your task is to take the person from the provided image and place them seamlessly into a new environment described by the user. **Crucially, you must preserve the exact facial features, hairstyle, and unique likeness of the person with the highest possible fidelity.** Do not change their appearance or identity. Now, generate the following scene: "${prompt}"`;
+    }
+    const roles = references.map((reference, i) => `- Image ${i + 1} is ${roleInstructions[reference.role]}`).join('\n');
+    return `You are an expert digital artist specializing in photorealistic compositing. You are given ${references.length} reference images, in this order:\n${roles}\n\nCombine them seamlessly into a single, cohesive thumbnail. Now, generate the following scene: "${prompt}"`;
+};
+
+export const createGeminiProvider = (apiKey: string | undefined = process.env.API_KEY): ImageProvider => {
+    let client: GoogleGenAI | null = null;
+
+    // Created on first use so that importing the app without a key does not crash.
+    const getClient = (): GoogleGenAI => {
+        if (!apiKey) {
+            throw new Error("API_KEY environment variable not set");
+        }
+        if (!client) {
+            client = new GoogleGenAI({ apiKey });
+        }
+        return client;
+    };
+
+    const generate = async ({ prompt, negativePrompt, aspectRatio, numberOfImages = 1, signal }: GenerateRequest): Promise<string[]> => {
+        const fullPrompt = `${prompt}. ${negativePrompt ? `Negative prompt: ${negativePrompt}` : ''}`;
+
+        const response = await getClient().models.generateImages({
+            model: GENERATE_MODEL,
+            prompt: fullPrompt,
+            config: {
+              numberOfImages,
+              outputMimeType: 'image/jpeg',
+              aspectRatio: aspectRatio,
+              abortSignal: signal,
+            },
+        });
+
+        const images = (response.generatedImages ?? [])
+            .map(generated => generated.image?.imageBytes)
+            .filter((bytes): bytes is string => !!bytes)
+            .map(bytes => `data:image/jpeg;base64,${bytes}`);
+        if (images.length > 0) {
+            return images;
+        }
+        if (response.generatedImages?.some(generated => generated.raiFilteredReason)) {
+            throw new GenerationError('safety', "No image was generated. The response was blocked due to safety policies. Please revise your prompt.");
+        }
+        throw new GenerationError('empty', "No image was generated. Please revise your prompt.");
+    };
+
+    const runEditModel = async (images: InlineImage[], instruction: string, signal?: AbortSignal): Promise<string> => {
+        const response = await getClient().models.generateContent({
+            model: EDIT_MODEL,
+            contents: {
+                parts: [
+                    ...images.map(image => ({ inlineData: { data: image.data, mimeType: image.mimeType } })),
+                    { text: instruction },
+                ],
+            },
+            config: {
+                responseModalities: [Modality.IMAGE, Modality.TEXT],
+                abortSignal: signal,
+            },
+        });
+
+        const imagePart = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
+
+        if (imagePart?.inlineData) {
+            return `data:${imagePart.inlineData.mimeType};base64,${imagePart.inlineData.data}`;
+        }
+        const finishReason = String(response.candidates?.[0]?.finishReason ?? '');
+        if (response.promptFeedback?.blockReason || /SAFETY|PROHIBITED|BLOCKLIST|SPII/.test(finishReason)) {
+            throw new GenerationError('safety', "No image was generated. The request was blocked due to safety policies. Please try describing a different scene.");
+        }
+        throw new GenerationError('empty', "No image was generated. The model may have refused the prompt. Please try describing a different scene.");
+    };
+
+    const edit = async ({ prompt, negativePrompt, references, signal }: EditRequest): Promise<string> => {
+        let editingInstruction = buildEditingInstruction(prompt, references);
+
+        if (negativePrompt) {
+            editingInstruction += `\n\n**IMPORTANTLY, AVOID the following elements at all costs: ${negativePrompt}.**`;
+        }
+
+        return runEditModel(references, editingInstruction, signal);
+    };
+
+    const instruct = async ({ images, instruction, signal }: InstructRequest): Promise<string> => runEditModel(images, instruction, signal);
+
+    const suggestPrompt = async (currentPrompt: string, signal?: AbortSignal): Promise<PromptSuggestion> => {
+        const systemInstruction = "You are an expert YouTube thumbnail strategist. Your goal is to help users create a vivid, detailed, and click-worthy visual prompt for an AI image generator.";
+        const userPrompt = `Based on the user's idea: '${currentPrompt || 'a popular YouTube video'}', generate one improved and highly detailed visual prompt. The new prompt must include specific details about cinematic lighting, dynamic composition, and a clear emotional tone to make it more engaging.`;
+
+        const response = await getClient().models.generateContent({
+            model: TEXT_MODEL,
+            contents: userPrompt,
+            config: {
+                systemInstruction: systemInstruction,
+                responseMimeType: "application/json",
+                abortSignal: signal,
+                responseSchema: {
+                    type: Type.OBJECT,
+                    properties: {
+                        visual_prompt: {
+                            type: Type.STRING,
+                            description: 'A single, detailed visual prompt for the AI image generator.'
+                        },
+                    },
+                    required: ['visual_prompt'],
+                },
+            },
+        });
+
+        const jsonStr = (response.text ?? '').trim();
+        const parsed = JSON.parse(jsonStr);
+
+        if (parsed.visual_prompt) {
+            return parsed;
+        }
+        throw new Error("Invalid response format from AI for suggestions.");
+    };
+
+    const suggestIdeas = async (currentPrompt: string, count: number, signal?: AbortSignal): Promise<PromptIdea[]> => {
+        const systemInstruction = "You are an expert YouTube thumbnail strategist. You propose distinct, click-worthy directions for a thumbnail so the creator can compare them side by side.";
+        const userPrompt = `Based on the user's idea: '${currentPrompt || 'a popular YouTube video'}', propose ${count} clearly different thumbnail concepts. Keep the user's subject, and vary the scene, the emotional tone, the composition and the headline between concepts.`;
+
+        const response = await getClient().models.generateContent({
+            model: TEXT_MODEL,
+            contents: userPrompt,
+            config: {
+                systemInstruction: systemInstruction,
+                responseMimeType: "application/json",
+                abortSignal: signal,
+                responseSchema: {
+                    type: Type.ARRAY,
+                    items: {
+                        type: Type.OBJECT,
+                        properties: {
+                            scene: { type: Type.STRING, description: 'What is shown: subject, setting and key props.' },
+                            emotion: { type: Type.STRING, description: 'The facial expression and mood, in a few words.' },
+                            composition: { type: Type.STRING, description: 'Framing, camera angle, lighting and where the empty space for text is.' },
+                            headline: { type: Type.STRING, description: 'Overlay text of at most five words.' },
+                        },
+                        required: ['scene', 'emotion', 'composition', 'headline'],
+                    },
+                },
+            },
+        });
+
+        const parsed = JSON.parse((response.text ?? '').trim());
+        const ideas = Array.isArray(parsed)
+            ? parsed.filter((idea): idea is PromptIdea => ['scene', 'emotion', 'composition', 'headline'].every((key) => typeof idea?.[key] === 'string'))
+            : [];
+        if (ideas.length > 0) {
+            return ideas.slice(0, count);
+        }
+        throw new Error("Invalid response format from AI for suggestions.");
+    };
+
+    const critique = async ({ image, context, signal }: CritiqueRequest): Promise<ThumbnailCritique> => {
+        const systemInstruction = "You are an expert YouTube thumbnail reviewer. You judge thumbnails the way viewers see them: small, on a busy page, for a fraction of a second.";
+        const userPrompt = `Review this thumbnail for click-through potential at small sizes. Local measurements:\n${context}\nScore it from 1 to 10 and give up to five concrete, actionable suggestions.`;
+
+        const response = await getClient().models.generateContent({
+            model: TEXT_MODEL,
+            contents: { parts: [{ inlineData: { data: image.data, mimeType: image.mimeType } }, { text: userPrompt }] },
+            config: {
+                systemInstruction: systemInstruction,
+                responseMimeType: "application/json",
+                abortSignal: signal,
+                responseSchema: {
+                    type: Type.OBJECT,
+                    properties: {
+                        score: { type: Type.NUMBER, description: 'Overall score from 1 (poor) to 10 (excellent).' },
+                        summary: { type: Type.STRING, description: 'One or two sentences on what works and what does not.' },
+                        suggestions: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Concrete changes, most important first.' },
+                    },
+                    required: ['score', 'summary', 'suggestions'],
+                },
+            },
+        });
+
+        const parsed = JSON.parse((response.text ?? '').trim());
+        if (typeof parsed.score === 'number' && typeof parsed.summary === 'string' && Array.isArray(parsed.suggestions)) {
+            return {
+                score: Math.min(10, Math.max(1, parsed.score)),
+                summary: parsed.summary,
+                suggestions: parsed.suggestions.filter((s: unknown): s is string => typeof s === 'string'),
+            };
+        }
+        throw new Error("Invalid response format from AI for the critique.");
+    };
+
+    return { name: 'gemini', models: { generate: GENERATE_MODEL, edit: EDIT_MODEL }, generate, edit, instruct, suggestPrompt, suggestIdeas, critique };
+};
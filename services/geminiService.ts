@@ -1,124 +1,215 @@
-import { GoogleGenAI, Modality, Type } from "@google/genai";
+import { AspectRatio, InlineImage, InlineReference, PromptIdea, PromptSuggestion, ThumbnailCritique } from "../types";
+import { ImageProvider, ProviderName, getProviderName } from "./imageProvider";
+import { createGeminiProvider } from "./geminiProvider";
+import { createMockProvider } from "./mockProvider";
+import { createProxyProvider } from "./proxyProvider";
+import { classifyError, ErrorCategory, RequestOptions, toGenerationError, withRetries } from "./resilience";
 
-if (!process.env.API_KEY) {
-    throw new Error("API_KEY environment variable not set");
-}
+export type { PromptIdea, PromptSuggestion, ThumbnailCritique };
+export type { ErrorCategory, RequestOptions };
+export { GenerationError } from "./resilience";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const providerFactories: Record<ProviderName, () => ImageProvider> = {
+    gemini: () => createGeminiProvider(),
+    mock: () => createMockProvider(),
+    proxy: () => createProxyProvider(),
+};
+
+let activeProvider: ImageProvider | null = null;
+
+export const getImageProvider = (): ImageProvider => {
+    if (!activeProvider) {
+        activeProvider = providerFactories[getProviderName()]();
+    }
+    return activeProvider;
+};
 
-type AspectRatio = '16:9' | '1:1' | '9:16' | '4:3' | '3:4';
-type UploadedImage = {
-    data: string; // base64 string without prefix
-    mimeType: string;
+/** Overrides the configured provider, e.g. to inject a mock from a test or demo. */
+export const setImageProvider = (provider: ImageProvider | null): void => {
+    activeProvider = provider;
 };
-export type PromptSuggestion = {
-    visual_prompt: string;
+
+/** The model that `generateThumbnails` will use for a request with or without reference images. */
+export const getModelName = (withReferences: boolean): string => {
+    const { models } = getImageProvider();
+    return withReferences ? models.edit : models.generate;
 };
 
+export const MAX_VARIANTS = 4;
 
-export const generateThumbnail = async (
+/** Appends a style preset (e.g. "Cinematic") to the prompt the way the app does. */
+export const stylePrompt = (prompt: string, style: string): string =>
+    style ? `${prompt}, ${style.toLowerCase()} style` : prompt;
+
+export type GenerationOutcome = {
+    images: string[];
+    /** The model that actually produced the images. */
+    model: string;
+    /** True when the edit model failed and text-to-image was used instead, without the references. */
+    usedFallback: boolean;
+};
+
+// Edit-model failures worth retrying without the references. Safety blocks are
+// excluded: the same prompt would most likely be blocked again, and auth or
+// quota problems affect both models alike.
+const fallbackCategories: ErrorCategory[] = ['empty', 'server'];
+
+/**
+ * Generates `count` candidate images for one prompt. Text-to-image asks the
+ * model for the whole batch at once; the edit model only returns one image per
+ * call, so those requests are fanned out in parallel. If every edit call fails
+ * in a way that text-to-image might not, the batch is retried on that model.
+ */
+export const generateThumbnails = async (
     prompt: string,
     negativePrompt: string,
     aspectRatio: AspectRatio,
-    image?: UploadedImage | null
-): Promise<string> => {
+    references: InlineReference[] = [],
+    count: number = 1,
+    options: RequestOptions & { allowFallback?: boolean } = {}
+): Promise<GenerationOutcome> => {
+    const numberOfImages = Math.min(Math.max(1, Math.floor(count)), MAX_VARIANTS);
+    const { allowFallback = true, ...requestOptions } = options;
+    const provider = getImageProvider();
+    const generate = () => withRetries(
+        (signal) => provider.generate({ prompt, negativePrompt, aspectRatio, numberOfImages, signal }),
+        requestOptions
+    );
     try {
-        if (image) {
+        if (references.length > 0) {
             // Image editing/modification path
-            let editingInstruction = `You are an expert digital artist specializing in photorealistic character integration. Your task is to take the person from the provided image and place them seamlessly into a new environment described by the user. **Crucially, you must preserve the exact facial features, hairstyle, and unique likeness of the person with the highest possible fidelity.** Do not change their appearance or identity. Now, generate the following scene: "${prompt}"`;
-
-            if (negativePrompt) {
-                editingInstruction += `\n\n**IMPORTANTLY, AVOID the following elements at all costs: ${negativePrompt}.**`;
-            }
-
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash-image-preview',
-                contents: {
-                    parts: [
-                        { inlineData: { data: image.data, mimeType: image.mimeType } },
-                        { text: editingInstruction },
-                    ],
-                },
-                config: {
-                    responseModalities: [Modality.IMAGE, Modality.TEXT],
-                },
-            });
-
-            const imagePart = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
-
-            if (imagePart?.inlineData) {
-                return `data:${imagePart.inlineData.mimeType};base64,${imagePart.inlineData.data}`;
-            } else {
-                 throw new Error("No image was generated. The model may have refused the prompt. Please try describing a different scene.");
+            const results = await Promise.allSettled(
+                Array.from({ length: numberOfImages }, (_, variantIndex) =>
+                    withRetries((signal) => provider.edit({ prompt, negativePrompt, aspectRatio, references, variantIndex, signal }), requestOptions)
+                )
+            );
+            const images = results.flatMap((result) => result.status === 'fulfilled' ? [result.value] : []);
+            if (images.length > 0) {
+                return { images, model: provider.models.edit, usedFallback: false };
             }
-        } else {
-            // Text-to-image generation path
-            const fullPrompt = `${prompt}. ${negativePrompt ? `Negative prompt: ${negativePrompt}` : ''}`;
-
-            const response = await ai.models.generateImages({
-                model: 'imagen-4.0-generate-001',
-                prompt: fullPrompt,
-                config: {
-                  numberOfImages: 1,
-                  outputMimeType: 'image/jpeg',
-                  aspectRatio: aspectRatio,
-                },
-            });
-
-            if (response.generatedImages?.length > 0) {
-                const base64ImageBytes: string = response.generatedImages[0].image.imageBytes;
-                return `data:image/jpeg;base64,${base64ImageBytes}`;
-            } else {
-                throw new Error("No image was generated. The response may have been blocked due to safety policies. Please revise your prompt.");
+            const failure = (results[0] as PromiseRejectedResult).reason;
+            if (!allowFallback || !fallbackCategories.includes(classifyError(failure))) {
+                throw failure;
             }
+            console.warn("Edit model failed; falling back to text-to-image:", failure);
+            return { images: await generate(), model: provider.models.generate, usedFallback: true };
         }
+        // Text-to-image generation path
+        return { images: await generate(), model: provider.models.generate, usedFallback: false };
     } catch (error) {
         console.error("Error generating thumbnail:", error);
-        const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
-        
-        if (errorMessage.includes('blocked') || errorMessage.includes('safety')) {
-             throw new Error("The generation was blocked due to safety policies. Please revise your prompt.");
-        }
-        
-        throw new Error(`Failed to generate thumbnail: ${errorMessage}`);
+        throw toGenerationError(error, "Failed to generate thumbnail");
     }
 };
 
-export const getPromptSuggestions = async (currentPrompt: string): Promise<PromptSuggestion> => {
+export const generateThumbnail = async (
+    prompt: string,
+    negativePrompt: string,
+    aspectRatio: AspectRatio,
+    references: InlineReference[] = [],
+    options: RequestOptions = {}
+): Promise<string> => {
+    const { images: [first] } = await generateThumbnails(prompt, negativePrompt, aspectRatio, references, 1, options);
+    return first;
+};
+
+/** Splits a base64 data URL into the inline form the providers expect. */
+export const toInlineImage = (dataUrl: string): InlineImage => {
+    const [header, data] = dataUrl.split(',');
+    const mimeType = header.match(/^data:([^;]+)/)?.[1] ?? 'image/png';
+    return { data, mimeType };
+};
+
+/**
+ * Asks the edit model to paint over the flat padding of an already
+ * letterboxed image so it fills the new aspect ratio naturally.
+ */
+export const outpaintImage = async (
+    paddedImageUrl: string,
+    aspectRatio: AspectRatio,
+    size: { width: number; height: number },
+    options: RequestOptions = {}
+): Promise<string> => {
+    const instruction = `This image has been padded to a ${aspectRatio} frame with flat colour bands along its edges. Extend the scene outward to replace those flat bands with a natural continuation of the background, matching perspective, lighting and style. Keep the original central content exactly as it is, do not add text, and keep the ${aspectRatio} aspect ratio.`;
     try {
-        const systemInstruction = "You are an expert YouTube thumbnail strategist. Your goal is to help users create a vivid, detailed, and click-worthy visual prompt for an AI image generator.";
-        const userPrompt = `Based on the user's idea: '${currentPrompt || 'a popular YouTube video'}', generate one improved and highly detailed visual prompt. The new prompt must include specific details about cinematic lighting, dynamic composition, and a clear emotional tone to make it more engaging.`;
-
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: userPrompt,
-            config: {
-                systemInstruction: systemInstruction,
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.OBJECT,
-                    properties: {
-                        visual_prompt: {
-                            type: Type.STRING,
-                            description: 'A single, detailed visual prompt for the AI image generator.'
-                        },
-                    },
-                    required: ['visual_prompt'],
-                },
-            },
-        });
-
-        const jsonStr = response.text.trim();
-        const parsed = JSON.parse(jsonStr);
-
-        if (parsed.visual_prompt) {
-            return parsed;
-        } else {
-            throw new Error("Invalid response format from AI for suggestions.");
-        }
+        return await withRetries((signal) => getImageProvider().instruct({ images: [toInlineImage(paddedImageUrl)], instruction, size, signal }), options);
+    } catch (error) {
+        console.error("Error outpainting image:", error);
+        throw toGenerationError(error, "Failed to extend the image");
+    }
+};
+
+/**
+ * Applies a follow-up instruction to an existing thumbnail. Subject
+ * references are sent along so the person's likeness survives repeated edits.
+ */
+export const refineImage = async (
+    imageUrl: string,
+    instruction: string,
+    subjectReferences: InlineReference[] = [],
+    size?: { width: number; height: number },
+    options: RequestOptions = {}
+): Promise<string> => {
+    let fullInstruction = `Edit the first image according to this instruction: "${instruction}". Keep everything else unchanged: the same composition, framing, people, style and aspect ratio, unless the instruction says otherwise. Do not add any text.`;
+    if (subjectReferences.length > 0) {
+        fullInstruction += ` The remaining ${subjectReferences.length > 1 ? 'images are reference photos' : 'image is a reference photo'} of the person in the thumbnail; **preserve their exact likeness.**`;
+    }
+    try {
+        return await withRetries((signal) => getImageProvider().instruct({ images: [toInlineImage(imageUrl), ...subjectReferences], instruction: fullInstruction, size, signal }), options);
+    } catch (error) {
+        console.error("Error refining image:", error);
+        throw toGenerationError(error, "Failed to refine thumbnail");
+    }
+};
+
+/**
+ * Asks the edit model to change only the region marked white in `maskUrl`.
+ * Models still tend to touch the whole frame, so callers should composite the
+ * masked area back onto the original rather than use the result directly.
+ */
+export const inpaintImage = async (
+    imageUrl: string,
+    maskUrl: string,
+    instruction: string,
+    size?: { width: number; height: number },
+    options: RequestOptions = {}
+): Promise<string> => {
+    const fullInstruction = `The first image is a thumbnail and the second image is a black-and-white mask of the same size. Apply this change only inside the white area of the mask: "${instruction}". Leave everything in the black area exactly as it is, blend the edit naturally with its surroundings, and return an image with the same dimensions as the first image. Do not add any text.`;
+    try {
+        return await withRetries((signal) => getImageProvider().instruct({ images: [toInlineImage(imageUrl), toInlineImage(maskUrl)], instruction: fullInstruction, size, signal }), options);
+    } catch (error) {
+        console.error("Error inpainting image:", error);
+        throw toGenerationError(error, "Failed to edit the selected region");
+    }
+};
+
+export const getPromptSuggestions = async (currentPrompt: string, options: RequestOptions = {}): Promise<PromptSuggestion> => {
+    try {
+        return await withRetries((signal) => getImageProvider().suggestPrompt(currentPrompt, signal), options);
     } catch (error) {
         console.error("Error getting prompt suggestions:", error);
-        const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
-        throw new Error(`Failed to get prompt suggestions: ${errorMessage}`);
+        throw toGenerationError(error, "Failed to get prompt suggestions");
+    }
+};
+
+export const MAX_IDEAS = 4;
+
+/** Several structured alternatives for the prompt; the caller decides what to keep. */
+export const getPromptIdeas = async (currentPrompt: string, count = MAX_IDEAS, options: RequestOptions = {}): Promise<PromptIdea[]> => {
+    try {
+        return await withRetries((signal) => getImageProvider().suggestIdeas(currentPrompt, count, signal), options);
+    } catch (error) {
+        console.error("Error getting prompt ideas:", error);
+        throw toGenerationError(error, "Failed to get prompt suggestions");
     }
-};
\ No newline at end of file
+};
+
+/** Asks the text model to review a finished thumbnail, given the local analysis as context. */
+export const critiqueThumbnail = async (imageUrl: string, context: string, options: RequestOptions = {}): Promise<ThumbnailCritique> => {
+    try {
+        return await withRetries((signal) => getImageProvider().critique({ image: toInlineImage(imageUrl), context, signal }), options);
+    } catch (error) {
+        console.error("Error critiquing thumbnail:", error);
+        throw toGenerationError(error, "Failed to critique the thumbnail");
+    }
+};
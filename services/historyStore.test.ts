@@ -0,0 +1,36 @@
+import "fake-indexeddb/auto";
+import { describe, expect, it } from "vitest";
+import { GenerationRecord } from "../types";
+import { assignGenerationToProject, deleteProject, listGenerations, listProjects, saveGenerations, saveProject } from "./historyStore";
+
+const record = (id: string, projectId: string | null, createdAt: number): GenerationRecord => ({
+    id,
+    projectId,
+    imageUrl: `data:image/png;base64,${id}`,
+    createdAt,
+    recipe: { prompt: id, negativePrompt: '', style: 'Cinematic', aspectRatio: '16:9', referenceImages: [], model: 'mock' },
+});
+
+describe('history store', () => {
+    it('lists generations newest first', async () => {
+        await saveGenerations([record('old', null, 1), record('new', null, 2)]);
+        expect((await listGenerations()).map((r) => r.id).slice(0, 2)).toEqual(['new', 'old']);
+    });
+
+    it('has the new project assigned as soon as the assignment resolves', async () => {
+        await saveGenerations([record('moving', null, 3)]);
+        await assignGenerationToProject('moving', 'launch');
+        expect((await listGenerations()).find((r) => r.id === 'moving')?.projectId).toBe('launch');
+        await expect(assignGenerationToProject('missing', 'launch')).resolves.toBeUndefined();
+    });
+
+    it('moves a deleted project\'s generations back to unsorted', async () => {
+        await saveProject({ id: 'doomed', name: 'Doomed', createdAt: 1 });
+        await saveGenerations([record('a', 'doomed', 4), record('b', 'doomed', 5), record('c', 'kept', 6)]);
+        await deleteProject('doomed');
+
+        expect((await listProjects()).some((p) => p.id === 'doomed')).toBe(false);
+        const projects = Object.fromEntries((await listGenerations()).map((r) => [r.id, r.projectId]));
+        expect(projects).toMatchObject({ a: null, b: null, c: 'kept' });
+    });
+});
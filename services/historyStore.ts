@@ -0,0 +1,66 @@
+import { GenerationRecord, Project, UploadedImage } from "../types";
+import { GENERATIONS, openDatabase, PROJECTS, transactionDone, withStore } from "./database";
+
+// Records saved before multi-reference support carried a single `referenceImage`.
+type LegacyGenerationRecord = GenerationRecord & {
+    recipe: GenerationRecord['recipe'] & { referenceImage?: UploadedImage | null };
+};
+
+const normalizeRecord = (record: LegacyGenerationRecord): GenerationRecord => {
+    if (record.recipe.referenceImages) return record;
+    const { referenceImage, ...recipe } = record.recipe;
+    return {
+        ...record,
+        recipe: {
+            ...recipe,
+            referenceImages: referenceImage ? [{ ...referenceImage, id: `${record.id}-ref`, role: 'subject' }] : [],
+        },
+    };
+};
+
+export const saveGenerations = async (records: GenerationRecord[]): Promise<void> => {
+    await withStore(GENERATIONS, 'readwrite', (store) => {
+        records.forEach((record) => store.put(record));
+    });
+};
+
+/** All stored generations, newest first. */
+export const listGenerations = async (): Promise<GenerationRecord[]> => {
+    const records = await withStore(GENERATIONS, 'readonly', (store) => store.getAll() as IDBRequest<LegacyGenerationRecord[]>);
+    return (records ?? []).map(normalizeRecord).sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteGeneration = async (id: string): Promise<void> => {
+    await withStore(GENERATIONS, 'readwrite', (store) => store.delete(id));
+};
+
+/** Resolves once the change is committed, so a refresh right after sees it. */
+export const assignGenerationToProject = async (id: string, projectId: string | null): Promise<void> => {
+    await withStore(GENERATIONS, 'readwrite', (store) => {
+        const request = store.get(id) as IDBRequest<GenerationRecord | undefined>;
+        request.onsuccess = () => {
+            if (request.result) store.put({ ...request.result, projectId });
+        };
+    });
+};
+
+export const listProjects = async (): Promise<Project[]> => {
+    const projects = await withStore(PROJECTS, 'readonly', (store) => store.getAll() as IDBRequest<Project[]>);
+    return (projects ?? []).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveProject = async (project: Project): Promise<void> => {
+    await withStore(PROJECTS, 'readwrite', (store) => store.put(project));
+};
+
+/** Deletes the project but keeps its generations, moving them back to "Unsorted". */
+export const deleteProject = async (id: string): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction([PROJECTS, GENERATIONS], 'readwrite');
+    const done = transactionDone(transaction);
+    transaction.objectStore(PROJECTS).delete(id);
+    const generations = transaction.objectStore(GENERATIONS);
+    const request = generations.index('projectId').getAll(id) as IDBRequest<GenerationRecord[]>;
+    request.onsuccess = () => request.result.forEach((record) => generations.put({ ...record, projectId: null }));
+    await done;
+};
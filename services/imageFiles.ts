@@ -0,0 +1,15 @@
+export const readFileAsDataUrl = (file: File): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => reader.result ? resolve(reader.result as string) : reject(new Error(`Could not read ${file.name}.`));
+        reader.readAsDataURL(file);
+    });
+
+/** Base64-encodes in chunks: spreading a multi-megabyte array into one call overflows the stack. */
+export const bytesToDataUrl = (bytes: Uint8Array, mimeType: string): string => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return `data:${mimeType};base64,${btoa(binary)}`;
+};
@@ -0,0 +1,101 @@
+import { Canvas, createCanvas } from "@napi-rs/canvas";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { nodeCanvasPlatform } from "../cli/nodeCanvas";
+import { setCanvasPlatform } from "./canvasPlatform";
+import { MAX_UPLOAD_BYTES, MAX_UPLOAD_DIMENSION, processUpload, readExifOrientation, UploadSource } from "./imagePreprocessing";
+
+/** A bare JPEG header with an Exif block holding only the orientation tag. */
+const jpegWithOrientation = (orientation: number, littleEndian: boolean): Uint8Array => {
+    const tiff = new DataView(new ArrayBuffer(26));
+    tiff.setUint16(0, littleEndian ? 0x4949 : 0x4d4d);
+    tiff.setUint16(2, 42, littleEndian);
+    tiff.setUint32(4, 8, littleEndian); // first IFD right after the header
+    tiff.setUint16(8, 1, littleEndian); // one entry
+    tiff.setUint16(10, 0x0112, littleEndian);
+    tiff.setUint16(12, 3, littleEndian); // SHORT
+    tiff.setUint32(14, 1, littleEndian);
+    tiff.setUint16(18, orientation, littleEndian);
+    const app1 = [0xff, 0xe1, 0, 2 + 6 + 26, 0x45, 0x78, 0x69, 0x66, 0, 0];
+    return new Uint8Array([0xff, 0xd8, ...app1, ...new Uint8Array(tiff.buffer), 0xff, 0xda]);
+};
+
+const sourceFrom = (canvas: Canvas): UploadSource => ({
+    name: 'test.png',
+    bytes: 0,
+    originalWidth: canvas.width,
+    originalHeight: canvas.height,
+    orientation: 1,
+    canvas: canvas as unknown as HTMLCanvasElement,
+    previewUrl: '',
+});
+
+describe('readExifOrientation', () => {
+    it('reads the tag in either byte order', () => {
+        expect(readExifOrientation(jpegWithOrientation(6, false))).toBe(6);
+        expect(readExifOrientation(jpegWithOrientation(3, true))).toBe(3);
+    });
+
+    it('treats missing, invalid or truncated metadata as upright', () => {
+        expect(readExifOrientation(new Uint8Array([0x89, 0x50, 0x4e, 0x47]))).toBe(1);
+        expect(readExifOrientation(jpegWithOrientation(9, false))).toBe(1);
+        expect(readExifOrientation(jpegWithOrientation(6, false).slice(0, 20))).toBe(1);
+    });
+});
+
+describe('processUpload', () => {
+    beforeAll(() => setCanvasPlatform(nodeCanvasPlatform));
+    afterAll(() => setCanvasPlatform(null));
+
+    it('crops and scales large photos into a JPEG under the upload limit', async () => {
+        const photo = createCanvas(3000, 2000);
+        const ctx = photo.getContext('2d');
+        const gradient = ctx.createLinearGradient(0, 0, 3000, 2000);
+        gradient.addColorStop(0, '#123456');
+        gradient.addColorStop(1, '#fedcba');
+        ctx.fillStyle = gradient;
+        ctx.fillRect(0, 0, 3000, 2000);
+
+        const result = await processUpload(sourceFrom(photo), { crop: { x: 0.5, y: 0, width: 0.5, height: 1 }, removeBackground: false, tolerance: 0.12 });
+        expect(result.image.mimeType).toBe('image/jpeg');
+        expect([result.width, result.height]).toEqual([1152, MAX_UPLOAD_DIMENSION]);
+        expect(result.bytes).toBeLessThanOrEqual(MAX_UPLOAD_BYTES);
+        expect(result.backgroundRemoved).toBeNull();
+    });
+
+    it('cuts a subject out of a plain background but keeps enclosed background colour', async () => {
+        const logo = createCanvas(200, 100);
+        const ctx = logo.getContext('2d');
+        ctx.fillStyle = '#f8f8f6';
+        ctx.fillRect(0, 0, 200, 100);
+        ctx.fillStyle = '#dd2222';
+        ctx.fillRect(50, 20, 100, 60);
+        ctx.fillStyle = '#f8f8f6';
+        ctx.fillRect(90, 40, 20, 20);
+
+        const result = await processUpload(sourceFrom(logo), { crop: null, removeBackground: true, tolerance: 0.12 });
+        expect(result.image.mimeType).toBe('image/png');
+        expect(result.backgroundRemoved).toBeGreaterThan(0.6);
+
+        const decoded = await nodeCanvasPlatform.loadImage(result.image.data);
+        const check = createCanvas(200, 100).getContext('2d');
+        check.drawImage(decoded as never, 0, 0);
+        const alphaAt = (x: number, y: number) => check.getImageData(x, y, 1, 1).data[3];
+        expect(alphaAt(5, 5)).toBe(0);
+        expect(alphaAt(60, 50)).toBe(255);
+        expect(alphaAt(100, 50)).toBe(255);
+    });
+
+    it('leaves busy backgrounds alone', async () => {
+        const busy = createCanvas(64, 64);
+        const ctx = busy.getContext('2d');
+        for (let x = 0; x < 64; x += 4) {
+            for (let y = 0; y < 64; y += 4) {
+                ctx.fillStyle = `rgb(${(x * 37) % 256}, ${(y * 53) % 256}, ${(x * y) % 256})`;
+                ctx.fillRect(x, y, 4, 4);
+            }
+        }
+        const result = await processUpload(sourceFrom(busy), { crop: null, removeBackground: true, tolerance: 0.12 });
+        expect(result.backgroundRemoved).toBeNull();
+        expect(result.image.mimeType).toBe('image/jpeg');
+    });
+});
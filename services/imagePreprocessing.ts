@@ -0,0 +1,281 @@
+import { UploadedImage } from "../types";
+import { getCanvasPlatform } from "./canvasPlatform";
+import { encodeWithinLimit, ExportFormat } from "./exporter";
+import { bytesToDataUrl, readFileAsDataUrl } from "./imageFiles";
+
+// Models downscale large inputs anyway, and five references must fit in one
+// request (about 20 MB once base64-encoded), so anything bigger is wasted upload.
+export const MAX_UPLOAD_DIMENSION = 1536;
+export const MAX_UPLOAD_BYTES = 2 * 1024 * 1024;
+// Upright copy kept for cropping; bounds memory for 50-megapixel photos.
+const MAX_SOURCE_DIMENSION = 4096;
+const PREVIEW_DIMENSION = 800;
+
+/** A region of the upright image, as fractions of its size. */
+export type CropRect = { x: number; y: number; width: number; height: number };
+
+export type UploadSource = {
+    name: string;
+    bytes: number;
+    originalWidth: number; // after orientation
+    originalHeight: number;
+    orientation: number; // EXIF orientation, 1 when absent
+    canvas: HTMLCanvasElement; // upright, at most MAX_SOURCE_DIMENSION on the long edge
+    previewUrl: string; // small upright copy for the crop editor
+};
+
+export type PreprocessOptions = {
+    crop: CropRect | null;
+    removeBackground: boolean;
+    tolerance: number; // 0..1, how far a colour may be from the background and still be removed
+};
+
+export type ProcessedUpload = {
+    image: UploadedImage;
+    width: number;
+    height: number;
+    bytes: number;
+    withinLimit: boolean;
+    /** Fraction of pixels made transparent, or null when removal was off or the background too busy. */
+    backgroundRemoved: number | null;
+};
+
+export const defaultPreprocessOptions: PreprocessOptions = { crop: null, removeBackground: false, tolerance: 0.12 };
+
+/**
+ * Reads the EXIF orientation (1–8) from a JPEG. Phone cameras store the pixels
+ * sideways and rely on this tag; models ignore it, so we rotate before sending.
+ */
+export const readExifOrientation = (bytes: Uint8Array): number => {
+    try {
+        const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+        if (view.getUint16(0) !== 0xffd8) return 1;
+        let offset = 2;
+        while (offset + 4 <= view.byteLength) {
+            const marker = view.getUint16(offset);
+            // Start of scan: image data follows and there is no more metadata.
+            if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) return 1;
+            if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) { // "Exif"
+                const tiff = offset + 10;
+                const littleEndian = view.getUint16(tiff) === 0x4949;
+                const ifd = tiff + view.getUint32(tiff + 4, littleEndian);
+                const count = view.getUint16(ifd, littleEndian);
+                for (let i = 0; i < count; i++) {
+                    const entry = ifd + 2 + i * 12;
+                    if (view.getUint16(entry, littleEndian) === 0x0112) {
+                        const orientation = view.getUint16(entry + 8, littleEndian);
+                        return orientation >= 1 && orientation <= 8 ? orientation : 1;
+                    }
+                }
+                return 1;
+            }
+            offset += 2 + view.getUint16(offset + 2);
+        }
+    } catch {
+        // Truncated or malformed metadata: treat the image as upright.
+    }
+    return 1;
+};
+
+// A 2×1 JPEG tagged with orientation 6. Hosts that apply EXIF themselves decode it as 1×2.
+const ORIENTATION_PROBE = 'data:image/jpeg;base64,/9j/4QAiRXhpZgAATU0AKgAAAAgAAQESAAMAAAABAAYAAAAAAAD/2wCEAAEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAAEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAf/AABEIAAEAAgMBEQACEQEDEQH/xABKAAEAAAAAAAAAAAAAAAAAAAALEAEAAAAAAAAAAAAAAAAAAAAAAQEAAAAAAAAAAAAAAAAAAAAAEQEAAAAAAAAAAAAAAAAAAAAA/9oADAMBAAIRAxEAPwA/8H//2Q==';
+
+let appliesOrientation: Promise<boolean> | null = null;
+
+/** Modern browsers rotate decoded images by their EXIF tag; older ones need us to do it. */
+const hostAppliesOrientation = (): Promise<boolean> => {
+    appliesOrientation ??= getCanvasPlatform().loadImage(ORIENTATION_PROBE)
+        .then((image) => image.width === 1 && image.height === 2)
+        .catch(() => false);
+    return appliesOrientation;
+};
+
+const get2dContext = (canvas: HTMLCanvasElement): CanvasRenderingContext2D => {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+    return ctx;
+};
+
+/** Draws `image` upright at `scale`, undoing the rotation or mirroring EXIF `orientation` describes. */
+const drawOriented = (image: CanvasImageSource & { width: number; height: number }, orientation: number, scale: number): HTMLCanvasElement => {
+    const width = Math.max(1, Math.round(image.width * scale));
+    const height = Math.max(1, Math.round(image.height * scale));
+    const swapsAxes = orientation >= 5;
+    const canvas = getCanvasPlatform().createCanvas(swapsAxes ? height : width, swapsAxes ? width : height);
+    const ctx = get2dContext(canvas);
+    const transforms: Record<number, [number, number, number, number, number, number]> = {
+        2: [-1, 0, 0, 1, width, 0],
+        3: [-1, 0, 0, -1, width, height],
+        4: [1, 0, 0, -1, 0, height],
+        5: [0, 1, 1, 0, 0, 0],
+        6: [0, 1, -1, 0, height, 0],
+        7: [0, -1, -1, 0, height, width],
+        8: [0, -1, 1, 0, 0, width],
+    };
+    if (transforms[orientation]) ctx.transform(...transforms[orientation]);
+    ctx.drawImage(image, 0, 0, width, height);
+    return canvas;
+};
+
+const scaleToFit = (width: number, height: number, maxDimension: number): number =>
+    Math.min(1, maxDimension / Math.max(width, height));
+
+/** Decodes an upload into an upright canvas. Anything the browser can display works, not just PNG, JPEG and WebP. */
+export const loadUpload = async (file: File): Promise<UploadSource> => {
+    const [dataUrl, header] = await Promise.all([readFileAsDataUrl(file), file.slice(0, 256 * 1024).arrayBuffer()]);
+    const orientation = readExifOrientation(new Uint8Array(header));
+    let image: HTMLImageElement;
+    try {
+        image = await getCanvasPlatform().loadImage(dataUrl);
+    } catch {
+        throw new Error(`Could not read ${file.name || 'the image'}. Try a PNG, JPG or WebP file.`);
+    }
+    const manualOrientation = orientation !== 1 && !(await hostAppliesOrientation()) ? orientation : 1;
+    const sourceScale = scaleToFit(image.width, image.height, MAX_SOURCE_DIMENSION);
+    const canvas = drawOriented(image, manualOrientation, sourceScale);
+    const preview = drawOriented(canvas, 1, scaleToFit(canvas.width, canvas.height, PREVIEW_DIMENSION));
+    return {
+        name: file.name,
+        bytes: file.size,
+        originalWidth: Math.round(canvas.width / sourceScale),
+        originalHeight: Math.round(canvas.height / sourceScale),
+        orientation,
+        canvas,
+        previewUrl: preview.toDataURL('image/png'), // PNG keeps transparency visible
+    };
+};
+
+const colourDistance = (data: Uint8ClampedArray, i: number, r: number, g: number, b: number): number =>
+    Math.hypot(data[i] - r, data[i + 1] - g, data[i + 2] - b) / 441.7; // 441.7 = distance from black to white
+
+/**
+ * Makes a flat background transparent: finds the dominant colour along the
+ * edges and flood-fills inward through everything close to it, so similar
+ * colours inside the subject survive. Works for studio shots, logos and
+ * screenshots; returns null when the edges are too varied to call a background.
+ */
+const removeFlatBackground = (canvas: HTMLCanvasElement, tolerance: number): number | null => {
+    const { width, height } = canvas;
+    const ctx = get2dContext(canvas);
+    const pixels = ctx.getImageData(0, 0, width, height);
+    const { data } = pixels;
+
+    const border: number[] = [];
+    for (let x = 0; x < width; x++) border.push(x, (height - 1) * width + x);
+    for (let y = 1; y < height - 1; y++) border.push(y * width, y * width + width - 1);
+
+    // Most common edge colour, bucketed to 4 bits per channel so noise and JPEG artefacts group together.
+    const buckets = new Map<number, { count: number; r: number; g: number; b: number }>();
+    for (const p of border) {
+        const i = p * 4;
+        const key = ((data[i] >> 4) << 8) | ((data[i + 1] >> 4) << 4) | (data[i + 2] >> 4);
+        const bucket = buckets.get(key) ?? { count: 0, r: 0, g: 0, b: 0 };
+        bucket.count++;
+        bucket.r += data[i];
+        bucket.g += data[i + 1];
+        bucket.b += data[i + 2];
+        buckets.set(key, bucket);
+    }
+    const dominant = [...buckets.values()].reduce((best, bucket) => bucket.count > best.count ? bucket : best);
+    if (dominant.count < border.length * 0.3) return null;
+    const [r, g, b] = [dominant.r / dominant.count, dominant.g / dominant.count, dominant.b / dominant.count];
+
+    const isBackground = (p: number) => data[p * 4 + 3] < 16 || colourDistance(data, p * 4, r, g, b) <= tolerance;
+    const mask = new Uint8Array(width * height);
+    const queue = new Int32Array(width * height);
+    let head = 0;
+    let tail = 0;
+    for (const p of border) {
+        if (!mask[p] && isBackground(p)) {
+            mask[p] = 1;
+            queue[tail++] = p;
+        }
+    }
+    while (head < tail) {
+        const p = queue[head++];
+        const x = p % width;
+        const neighbours = [x > 0 ? p - 1 : -1, x < width - 1 ? p + 1 : -1, p - width, p + width];
+        for (const n of neighbours) {
+            if (n >= 0 && n < mask.length && !mask[n] && isBackground(n)) {
+                mask[n] = 1;
+                queue[tail++] = n;
+            }
+        }
+    }
+
+    // Soften the cut with a small box blur of the mask so edges are not jagged.
+    const radius = Math.max(1, Math.round(Math.max(width, height) / 600));
+    const horizontal = new Float32Array(mask.length);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            let sum = 0;
+            let n = 0;
+            for (let dx = -radius; dx <= radius; dx++) {
+                const xx = x + dx;
+                if (xx >= 0 && xx < width) { sum += mask[y * width + xx]; n++; }
+            }
+            horizontal[y * width + x] = sum / n;
+        }
+    }
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            let sum = 0;
+            let n = 0;
+            for (let dy = -radius; dy <= radius; dy++) {
+                const yy = y + dy;
+                if (yy >= 0 && yy < height) { sum += horizontal[yy * width + x]; n++; }
+            }
+            const i = (y * width + x) * 4 + 3;
+            data[i] = Math.min(data[i], Math.round(255 * (1 - sum / n)));
+        }
+    }
+    ctx.putImageData(pixels, 0, 0);
+    return tail / mask.length;
+};
+
+const hasTransparency = (canvas: HTMLCanvasElement): boolean => {
+    const { data } = get2dContext(canvas).getImageData(0, 0, canvas.width, canvas.height);
+    for (let i = 3; i < data.length; i += 4) {
+        if (data[i] < 255) return true;
+    }
+    return false;
+};
+
+/**
+ * Produces exactly what will be sent to the model: cropped, optionally cut
+ * out, scaled to MAX_UPLOAD_DIMENSION and compressed under MAX_UPLOAD_BYTES.
+ * Opaque images become JPEG; transparent ones stay PNG, or WebP if PNG is too big.
+ */
+export const processUpload = async (source: UploadSource, options: PreprocessOptions = defaultPreprocessOptions): Promise<ProcessedUpload> => {
+    const crop = options.crop ?? { x: 0, y: 0, width: 1, height: 1 };
+    const sx = Math.round(crop.x * source.canvas.width);
+    const sy = Math.round(crop.y * source.canvas.height);
+    const sw = Math.max(1, Math.round(crop.width * source.canvas.width));
+    const sh = Math.max(1, Math.round(crop.height * source.canvas.height));
+    const scale = scaleToFit(sw, sh, MAX_UPLOAD_DIMENSION);
+    const canvas = getCanvasPlatform().createCanvas(Math.max(1, Math.round(sw * scale)), Math.max(1, Math.round(sh * scale)));
+    const ctx = get2dContext(canvas);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(source.canvas, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+
+    const backgroundRemoved = options.removeBackground ? removeFlatBackground(canvas, options.tolerance) : null;
+
+    let format: ExportFormat = hasTransparency(canvas) ? 'image/png' : 'image/jpeg';
+    let encoded = await encodeWithinLimit(canvas, format, MAX_UPLOAD_BYTES);
+    if (!encoded.withinLimit && format === 'image/png') {
+        format = 'image/webp';
+        encoded = await encodeWithinLimit(canvas, format, MAX_UPLOAD_BYTES);
+    }
+    return {
+        image: { data: bytesToDataUrl(new Uint8Array(await encoded.blob.arrayBuffer()), format), mimeType: format },
+        width: canvas.width,
+        height: canvas.height,
+        bytes: encoded.blob.size,
+        withinLimit: encoded.withinLimit,
+        backgroundRemoved,
+    };
+};
+
+/** The whole pipeline with default settings, for uploads that do not go through the preview dialog. */
+export const prepareUpload = async (file: File): Promise<UploadedImage> =>
+    (await processUpload(await loadUpload(file))).image;
@@ -0,0 +1,78 @@
+import { AspectRatio, InlineImage, InlineReference, PromptIdea, PromptSuggestion, ThumbnailCritique } from "../types";
+
+/** Providers should stop work and reject when the signal aborts. */
+type Cancellable = {
+    signal?: AbortSignal;
+};
+
+type BaseRequest = Cancellable & {
+    prompt: string;
+    negativePrompt: string;
+    aspectRatio: AspectRatio;
+};
+
+export type GenerateRequest = BaseRequest & {
+    /** How many images to return in one call. Defaults to 1. */
+    numberOfImages?: number;
+};
+
+export type EditRequest = BaseRequest & {
+    /** At least one image, each tagged with the part it plays in the composition. */
+    references: InlineReference[];
+    /** Index of this call within a batch; lets deterministic providers vary their output. */
+    variantIndex?: number;
+};
+
+/** A free-form edit: the caller supplies the complete instruction for the edit model. */
+export type InstructRequest = Cancellable & {
+    images: InlineImage[];
+    instruction: string;
+    /** Desired output size. Real models may ignore it; the mock honours it. */
+    size?: { width: number; height: number };
+};
+
+export type CritiqueRequest = Cancellable & {
+    image: InlineImage;
+    /** Locally measured facts about the image, so the critique can build on them. */
+    context: string;
+};
+
+/**
+ * A backend capable of producing thumbnails. Images are returned as base64
+ * data URLs; failures reject with the provider's raw error (or a
+ * `GenerationError` when the provider knows the category) and user-facing
+ * error wording is left to `geminiService.ts`.
+ */
+export interface ImageProvider {
+    readonly name: ProviderName;
+    /** Model identifiers, recorded alongside each generation in the history. */
+    readonly models: { generate: string; edit: string };
+    generate(request: GenerateRequest): Promise<string[]>;
+    edit(request: EditRequest): Promise<string>;
+    instruct(request: InstructRequest): Promise<string>;
+    suggestPrompt(currentPrompt: string, signal?: AbortSignal): Promise<PromptSuggestion>;
+    /** Several structured alternatives for the same idea. */
+    suggestIdeas(currentPrompt: string, count: number, signal?: AbortSignal): Promise<PromptIdea[]>;
+    critique(request: CritiqueRequest): Promise<ThumbnailCritique>;
+}
+
+/** `proxy` forwards to the backend in `server/`, which runs one of the others with its own key. */
+export type ProviderName = 'gemini' | 'mock' | 'proxy';
+
+const providerNames: ProviderName[] = ['gemini', 'mock', 'proxy'];
+
+/**
+ * Resolves the configured provider. `IMAGE_PROVIDER` wins when set (the web
+ * build always sets it, see `vite.config.ts`); otherwise we fall back to the
+ * offline mock whenever no API key is available.
+ */
+export const getProviderName = (): ProviderName => {
+    const configured = (process.env.IMAGE_PROVIDER || '').trim().toLowerCase();
+    if (configured) {
+        if (!providerNames.includes(configured as ProviderName)) {
+            throw new Error(`Unknown IMAGE_PROVIDER "${configured}". Expected one of: ${providerNames.join(', ')}.`);
+        }
+        return configured as ProviderName;
+    }
+    return process.env.API_KEY ? 'gemini' : 'mock';
+};
@@ -0,0 +1,42 @@
+import { createCanvas } from "@napi-rs/canvas";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { nodeCanvasPlatform } from "../cli/nodeCanvas";
+import { setCanvasPlatform } from "./canvasPlatform";
+import { featherMask, isMaskEmpty } from "./inpainting";
+
+/** A 100×20 mask painted from x = 50 to the right edge. */
+const halfMask = () => {
+    const mask = createCanvas(100, 20);
+    const ctx = mask.getContext('2d');
+    ctx.fillStyle = '#ff0000';
+    ctx.fillRect(50, 0, 50, 20);
+    return mask as unknown as HTMLCanvasElement;
+};
+
+const alphaRow = (canvas: HTMLCanvasElement, y: number): number[] => {
+    const { data } = canvas.getContext('2d')!.getImageData(0, y, canvas.width, 1);
+    return Array.from({ length: canvas.width }, (_, x) => data[x * 4 + 3]);
+};
+
+describe('featherMask', () => {
+    beforeAll(() => setCanvasPlatform(nodeCanvasPlatform));
+    afterAll(() => setCanvasPlatform(null));
+
+    it('ramps a straight edge up inside the painted area', () => {
+        const row = alphaRow(featherMask(halfMask(), 30), 10);
+        const ramp = row.slice(50, 80);
+        expect(ramp.filter((value) => value > 0 && value < 255).length).toBeGreaterThan(10);
+        // Opacity never drops as we move into the mask, and the far side stays solid.
+        ramp.forEach((value, i) => { if (i > 0) expect(value).toBeGreaterThanOrEqual(ramp[i - 1]); });
+        expect(row[99]).toBe(255);
+    });
+
+    it('keeps everything outside the mask untouched', () => {
+        const row = alphaRow(featherMask(halfMask(), 30), 10);
+        expect(row.slice(0, 50).every((value) => value === 0)).toBe(true);
+    });
+
+    it('leaves an empty mask empty', () => {
+        expect(isMaskEmpty(featherMask(createCanvas(40, 40) as unknown as HTMLCanvasElement, 12))).toBe(true);
+    });
+});
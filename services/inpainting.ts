@@ -0,0 +1,115 @@
+import { loadImage } from "./canvasRenderer";
+import { getCanvasPlatform } from "./canvasPlatform";
+
+const createCanvas = (width: number, height: number): HTMLCanvasElement => getCanvasPlatform().createCanvas(width, height);
+
+const get2dContext = (canvas: HTMLCanvasElement): CanvasRenderingContext2D => {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+    return ctx;
+};
+
+/** One horizontal then one vertical box-blur pass over a single channel. */
+const boxBlur = (values: Float32Array, width: number, height: number, radius: number) => {
+    const scratch = new Float32Array(values.length);
+    const span = radius * 2 + 1;
+    for (let y = 0; y < height; y++) {
+        let sum = 0;
+        for (let x = -radius; x <= radius; x++) sum += values[y * width + Math.min(width - 1, Math.max(0, x))];
+        for (let x = 0; x < width; x++) {
+            scratch[y * width + x] = sum / span;
+            sum += values[y * width + Math.min(width - 1, x + radius + 1)] - values[y * width + Math.max(0, x - radius)];
+        }
+    }
+    for (let x = 0; x < width; x++) {
+        let sum = 0;
+        for (let y = -radius; y <= radius; y++) sum += scratch[Math.min(height - 1, Math.max(0, y)) * width + x];
+        for (let y = 0; y < height; y++) {
+            values[y * width + x] = sum / span;
+            sum += scratch[Math.min(height - 1, y + radius + 1) * width + x] - scratch[Math.max(0, y - radius) * width + x];
+        }
+    }
+};
+
+/**
+ * Softens the mask edge. The blur only spreads inward so nothing outside the
+ * painted region gains alpha, which keeps the rest of the image pixel-identical.
+ */
+export const featherMask = (mask: HTMLCanvasElement, radius: number): HTMLCanvasElement => {
+    const { width, height } = mask;
+    const source = get2dContext(mask).getImageData(0, 0, width, height);
+    const alpha = new Float32Array(width * height);
+    for (let i = 0; i < alpha.length; i++) alpha[i] = source.data[i * 4 + 3];
+
+    const blurred = alpha.slice();
+    const passRadius = Math.max(1, Math.round(radius / 3));
+    // Three box passes approximate a Gaussian.
+    for (let pass = 0; pass < 3; pass++) boxBlur(blurred, width, height, passRadius);
+
+    const feathered = createCanvas(width, height);
+    const ctx = get2dContext(feathered);
+    const output = ctx.createImageData(width, height);
+    for (let i = 0; i < alpha.length; i++) {
+        // The blur is half strength on the mask edge; remapping 128..255 to 0..255
+        // ramps up inside the edge and leaves everything outside at zero.
+        const value = Math.min(alpha[i], Math.max(0, blurred[i] * 2 - 255));
+        output.data[i * 4] = 255;
+        output.data[i * 4 + 1] = 255;
+        output.data[i * 4 + 2] = 255;
+        output.data[i * 4 + 3] = value;
+    }
+    ctx.putImageData(output, 0, 0);
+    return feathered;
+};
+
+export const isMaskEmpty = (mask: HTMLCanvasElement): boolean => {
+    const { data } = get2dContext(mask).getImageData(0, 0, mask.width, mask.height);
+    for (let i = 3; i < data.length; i += 4) {
+        if (data[i] > 0) return false;
+    }
+    return true;
+};
+
+/** Black-and-white PNG of the mask (white = edit here), the form edit models understand. */
+export const maskToDataUrl = (mask: HTMLCanvasElement): string => {
+    const output = createCanvas(mask.width, mask.height);
+    const ctx = get2dContext(output);
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, output.width, output.height);
+    const white = createCanvas(mask.width, mask.height);
+    const whiteCtx = get2dContext(white);
+    whiteCtx.drawImage(mask, 0, 0);
+    whiteCtx.globalCompositeOperation = 'source-in';
+    whiteCtx.fillStyle = '#ffffff';
+    whiteCtx.fillRect(0, 0, white.width, white.height);
+    ctx.drawImage(white, 0, 0);
+    return output.toDataURL('image/png');
+};
+
+/**
+ * Pastes the masked region of `editedUrl` over `originalUrl`. The edited image
+ * is stretched to the original's size first, since edit models do not always
+ * return the dimensions they were given. Returned as PNG so untouched pixels
+ * survive without another lossy round-trip.
+ */
+export const compositeInpaint = async (
+    originalUrl: string,
+    editedUrl: string,
+    mask: HTMLCanvasElement,
+    featherRadius: number
+): Promise<string> => {
+    const [original, edited] = await Promise.all([loadImage(originalUrl), loadImage(editedUrl)]);
+    const { width, height } = original;
+
+    const patch = createCanvas(width, height);
+    const patchCtx = get2dContext(patch);
+    patchCtx.drawImage(edited, 0, 0, width, height);
+    patchCtx.globalCompositeOperation = 'destination-in';
+    patchCtx.drawImage(featherRadius > 0 ? featherMask(mask, featherRadius) : mask, 0, 0, width, height);
+
+    const output = createCanvas(width, height);
+    const ctx = get2dContext(output);
+    ctx.drawImage(original, 0, 0);
+    ctx.drawImage(patch, 0, 0);
+    return output.toDataURL('image/png');
+};
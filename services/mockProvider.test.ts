@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { createMockProvider } from "./mockProvider";
+import { ErrorCategory, GenerationError } from "./resilience";
+
+const provider = createMockProvider({ latencyMs: 0 });
+const request = { prompt: 'a cat in a spacesuit', negativePrompt: 'blurry', aspectRatio: '16:9' as const };
+const reference = { data: btoa('not really a png'), mimeType: 'image/png', role: 'subject' as const };
+
+const decodeSvg = (dataUrl: string): string => atob(dataUrl.replace('data:image/svg+xml;base64,', ''));
+
+describe('mock provider', () => {
+    it('draws the same image for the same request', async () => {
+        const [first] = await provider.generate(request);
+        const [second] = await createMockProvider({ latencyMs: 0 }).generate(request);
+        expect(first).toMatch(/^data:image\/svg\+xml;base64,/);
+        expect(second).toBe(first);
+    });
+
+    it('draws different images for different prompts and variants', async () => {
+        const [original] = await provider.generate(request);
+        const [other] = await provider.generate({ ...request, prompt: 'a dog in a spacesuit' });
+        const batch = await provider.generate({ ...request, numberOfImages: 3 });
+        expect(other).not.toBe(original);
+        expect(new Set(batch).size).toBe(3);
+    });
+
+    it('sizes the placeholder for the requested aspect ratio', async () => {
+        const [portrait] = await provider.generate({ ...request, aspectRatio: '9:16' });
+        expect(decodeSvg(portrait)).toContain('width="720" height="1280"');
+    });
+
+    it('is deterministic on the edit and instruct paths too', async () => {
+        const edited = await provider.edit({ ...request, references: [reference] });
+        expect(await provider.edit({ ...request, references: [reference] })).toBe(edited);
+        expect(decodeSvg(edited)).toContain(reference.data);
+
+        const instructed = await provider.instruct({ images: [reference], instruction: 'make it darker', size: { width: 640, height: 360 } });
+        expect(await provider.instruct({ images: [reference], instruction: 'make it darker', size: { width: 640, height: 360 } })).toBe(instructed);
+    });
+
+    it.each<ErrorCategory>(['safety', 'quota', 'auth', 'network', 'server', 'empty'])('fails with %s when the prompt asks for it', async (category) => {
+        const failure = provider.generate({ ...request, prompt: `a cat [fail:${category}]` });
+        await expect(failure).rejects.toBeInstanceOf(GenerationError);
+        await expect(failure).rejects.toMatchObject({ category });
+    });
+
+    it('applies directives to edit instructions as well', async () => {
+        await expect(provider.instruct({ images: [reference], instruction: 'brighter [fail:server]' })).rejects.toMatchObject({ category: 'server' });
+    });
+
+    it('ignores unknown directives', async () => {
+        await expect(provider.generate({ ...request, prompt: 'a cat [fail:gremlins]' })).resolves.toHaveLength(1);
+    });
+
+    it('fails only the edit model for [fail-edit:...]', async () => {
+        const prompt = 'a cat [fail-edit:empty]';
+        await expect(provider.edit({ ...request, prompt, references: [reference] })).rejects.toMatchObject({ category: 'empty' });
+        await expect(provider.generate({ ...request, prompt })).resolves.toHaveLength(1);
+    });
+
+    it('stops waiting when the request is cancelled', async () => {
+        const controller = new AbortController();
+        const pending = createMockProvider({ latencyMs: 10_000 }).generate({ ...request, signal: controller.signal });
+        controller.abort();
+        await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+    });
+});
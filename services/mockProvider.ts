@@ -0,0 +1,245 @@
+import { AspectRatio, PromptIdea, PromptSuggestion, ReferenceRole, ThumbnailCritique } from "../types";
+import { CritiqueRequest, EditRequest, GenerateRequest, ImageProvider, InstructRequest } from "./imageProvider";
+import { ErrorCategory, GenerationError } from "./resilience";
+
+type MockProviderOptions = {
+    /** Artificial delay so loading states can be exercised. */
+    latencyMs?: number;
+};
+
+// Roughly the output sizes of the real models, so letterboxing behaves the same offline.
+const mockDimensions: Record<AspectRatio, [number, number]> = {
+    '16:9': [1280, 720],
+    '1:1': [1024, 1024],
+    '9:16': [720, 1280],
+    '4:3': [1024, 768],
+    '3:4': [768, 1024],
+};
+const EDIT_SIZE = 1024;
+
+// Building blocks for mock suggestion ideas.
+const ideaParts = {
+    scene: ['standing in front of a glowing city skyline', 'surrounded by floating screens and data', 'on a stormy mountain summit', 'in a neon-lit studio', 'at a cluttered desk late at night'],
+    emotion: ['shocked, mouth open', 'confident smirk', 'determined and focused', 'joyful and excited', 'worried, eyebrows raised'],
+    composition: ['close-up on the face, subject on the right, empty space on the left for text', 'low-angle hero shot with dramatic rim lighting', 'split-screen before and after', 'wide shot with a bold arrow pointing at the subject', 'centered subject, shallow depth of field, headline space at the top'],
+    headline: ['YOU WON\'T BELIEVE THIS', 'IT ACTUALLY WORKED', 'DON\'T DO THIS', 'THE TRUTH', 'GAME CHANGER'],
+};
+
+// Where each kind of reference lands in the mock composition, as fractions of the frame.
+const referenceLayout: Record<ReferenceRole, { x: number; y: number; size: number; opacity: number }> = {
+    background: { x: 0, y: 0, size: 1, opacity: 0.6 },
+    subject: { x: 0.2, y: 0.12, size: 0.6, opacity: 1 },
+    logo: { x: 0.78, y: 0.04, size: 0.18, opacity: 1 },
+    style: { x: 0.04, y: 0.04, size: 0.14, opacity: 0.8 },
+};
+
+const hashString = (value: string): number => {
+    // FNV-1a, 32-bit
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+// mulberry32: tiny seeded PRNG so identical requests always draw identical images.
+const createRandom = (seed: number) => () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const escapeXml = (value: string): string =>
+    value.replace(/[<>&'"]/g, (c) => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' }[c] as string));
+
+const toBase64 = (value: string): string => {
+    const bytes = new TextEncoder().encode(value);
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) {
+        binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary);
+};
+
+/** `hsl()` as hex: server-side SVG renderers (the batch CLI) only understand hex and rgb colours. */
+const hsl = (hue: number, saturation: number, lightness: number): string => {
+    const s = saturation / 100;
+    const l = lightness / 100;
+    const channel = (n: number) => {
+        const k = (n + hue / 30) % 12;
+        const value = l - s * Math.min(l, 1 - l) * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+        return Math.round(value * 255).toString(16).padStart(2, '0');
+    };
+    return `#${channel(0)}${channel(8)}${channel(4)}`;
+};
+
+const svgDataUrl = (svg: string): string => `data:image/svg+xml;base64,${toBase64(svg)}`;
+
+const wrapCaption = (text: string, maxChars: number, maxLines: number): string[] => {
+    const lines: string[] = [];
+    let current = '';
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+        if ((current + ' ' + word).trim().length > maxChars && current) {
+            lines.push(current);
+            current = word;
+        } else {
+            current = `${current} ${word}`.trim();
+        }
+        if (lines.length === maxLines) break;
+    }
+    if (current && lines.length < maxLines) lines.push(current);
+    return lines;
+};
+
+/**
+ * Draws a deterministic placeholder scene seeded by the request. `underlay`
+ * is extra SVG markup painted above the background (used for the edit path).
+ */
+const drawPlaceholder = (width: number, height: number, seedText: string, label: string, underlay = ''): string => {
+    const random = createRandom(hashString(seedText));
+    const hue = Math.floor(random() * 360);
+    const accentHue = (hue + 120 + Math.floor(random() * 120)) % 360;
+    const shortSide = Math.min(width, height);
+
+    const shapes: string[] = [];
+    for (let i = 0; i < 7; i++) {
+        const cx = Math.round(random() * width);
+        const cy = Math.round(random() * height);
+        const r = Math.round(shortSide * (0.08 + random() * 0.25));
+        const shapeHue = random() > 0.5 ? hue : accentHue;
+        shapes.push(`<circle cx="${cx}" cy="${cy}" r="${r}" fill="${hsl(shapeHue, 80, 60)}" fill-opacity="${(0.15 + random() * 0.35).toFixed(2)}"/>`);
+    }
+
+    const fontSize = Math.round(shortSide / 22);
+    const caption = wrapCaption(seedText, Math.floor(width / (fontSize * 0.6)), 3)
+        .map((line, i) => `<tspan x="${width / 2}" dy="${i === 0 ? 0 : fontSize * 1.3}">${escapeXml(line)}</tspan>`)
+        .join('');
+
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+        + `<defs><linearGradient id="bg" x1="0" y1="0" x2="1" y2="1">`
+        + `<stop offset="0" stop-color="${hsl(hue, 70, 25)}"/><stop offset="1" stop-color="${hsl(accentHue, 70, 12)}"/>`
+        + `</linearGradient></defs>`
+        + `<rect width="${width}" height="${height}" fill="url(#bg)"/>`
+        + shapes.join('')
+        + underlay
+        + `<rect x="0" y="${height - fontSize * 6}" width="${width}" height="${fontSize * 6}" fill="#000" fill-opacity="0.45"/>`
+        + `<text x="${width / 2}" y="${height - fontSize * 4.3}" font-family="sans-serif" font-size="${fontSize}" fill="#fff" text-anchor="middle">${caption}</text>`
+        + `<text x="${fontSize}" y="${fontSize * 1.6}" font-family="monospace" font-size="${Math.round(fontSize * 0.8)}" fill="#fbbf24">${escapeXml(label)}</text>`
+        + `</svg>`;
+    return svgDataUrl(svg);
+};
+
+// Variant 0 keeps the plain seed so single generations stay stable across batch sizes.
+const seedFor = (prompt: string, negativePrompt: string, variantIndex: number): string =>
+    [prompt, negativePrompt, variantIndex ? `#${variantIndex}` : ''].filter(Boolean).join('|');
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    // Long-lived signals see many calls, so the listener must not outlive the timer.
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(new DOMException('The request was cancelled.', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Writing e.g. `[fail:quota]` in a prompt makes the mock fail that way, to exercise error handling offline.
+const simulatedFailures: Record<string, { category: ErrorCategory; message: string }> = {
+    safety: { category: 'safety', message: 'Mock: the request was blocked due to safety policies.' },
+    quota: { category: 'quota', message: 'Mock: RESOURCE_EXHAUSTED, too many requests.' },
+    auth: { category: 'auth', message: 'Mock: API key not valid.' },
+    network: { category: 'network', message: 'Mock: failed to fetch.' },
+    server: { category: 'server', message: 'Mock: the model is overloaded.' },
+    empty: { category: 'empty', message: 'Mock: no image was generated.' },
+};
+
+const failIfRequested = (text: string): void => {
+    const name = text.match(/\[fail:([a-z]+)\]/)?.[1];
+    const failure = name ? simulatedFailures[name] : undefined;
+    if (failure) throw new GenerationError(failure.category, failure.message);
+};
+
+/**
+ * Offline provider that never touches the network. Images are procedurally
+ * drawn SVGs keyed on the request, so the same input always yields the same
+ * output — suitable for UI development, demos and tests.
+ */
+export const createMockProvider = ({ latencyMs = 600 }: MockProviderOptions = {}): ImageProvider => {
+    const generate = async ({ prompt, negativePrompt, aspectRatio, numberOfImages = 1, signal }: GenerateRequest): Promise<string[]> => {
+        await delay(latencyMs, signal);
+        failIfRequested(prompt);
+        const [width, height] = mockDimensions[aspectRatio];
+        return Array.from({ length: numberOfImages }, (_, i) =>
+            drawPlaceholder(width, height, seedFor(prompt, negativePrompt, i), `MOCK ${aspectRatio}${numberOfImages > 1 ? ` #${i + 1}` : ''}`)
+        );
+    };
+
+    const edit = async ({ prompt, negativePrompt, references, variantIndex = 0, signal }: EditRequest): Promise<string> => {
+        await delay(latencyMs, signal);
+        // `[fail-edit:...]` only fails the edit model, so the text-to-image fallback can be tried.
+        failIfRequested(prompt.replace('[fail-edit:', '[fail:'));
+        // Backgrounds first so every other reference sits on top of them.
+        const ordered = [...references].sort((a, b) => Number(b.role === 'background') - Number(a.role === 'background'));
+        const underlay = ordered.map(({ role, mimeType, data }) => {
+            const { x, y, size, opacity } = referenceLayout[role];
+            const fit = role === 'background' ? 'xMidYMid slice' : 'xMidYMid meet';
+            return `<image href="data:${mimeType};base64,${data}" x="${x * EDIT_SIZE}" y="${y * EDIT_SIZE}" width="${size * EDIT_SIZE}" height="${size * EDIT_SIZE}" opacity="${opacity}" preserveAspectRatio="${fit}"/>`;
+        }).join('');
+        return drawPlaceholder(EDIT_SIZE, EDIT_SIZE, seedFor(prompt, negativePrompt, variantIndex), 'MOCK EDIT', underlay);
+    };
+
+    const instruct = async ({ images, instruction, size, signal }: InstructRequest): Promise<string> => {
+        await delay(latencyMs, signal);
+        failIfRequested(instruction);
+        const { width, height } = size ?? { width: EDIT_SIZE, height: EDIT_SIZE };
+        // Echo the first input full-frame under a tint so the "edit" is visible but the layout is kept.
+        const [source] = images;
+        const underlay = source
+            ? `<image href="data:${source.mimeType};base64,${source.data}" width="${width}" height="${height}" preserveAspectRatio="xMidYMid slice"/>`
+                + `<rect width="${width}" height="${height}" fill="${hsl(hashString(instruction) % 360, 80, 50)}" fill-opacity="0.15"/>`
+            : '';
+        return drawPlaceholder(width, height, instruction, 'MOCK INSTRUCT', underlay);
+    };
+
+    const suggestPrompt = async (currentPrompt: string, signal?: AbortSignal): Promise<PromptSuggestion> => {
+        await delay(latencyMs, signal);
+        const idea = currentPrompt.trim() || 'a popular YouTube video';
+        return {
+            visual_prompt: `${idea}, dramatic rim lighting, low-angle dynamic composition, shallow depth of field, intense emotional expression, high contrast colors`,
+        };
+    };
+
+    const suggestIdeas = async (currentPrompt: string, count: number, signal?: AbortSignal): Promise<PromptIdea[]> => {
+        await delay(latencyMs, signal);
+        const idea = currentPrompt.trim() || 'a popular YouTube video';
+        const random = createRandom(hashString(idea));
+        const pick = (options: string[], i: number) => options[(Math.floor(random() * options.length) + i) % options.length];
+        return Array.from({ length: count }, (_, i) => ({
+            scene: `${idea}, ${pick(ideaParts.scene, i)}`,
+            emotion: pick(ideaParts.emotion, i),
+            composition: pick(ideaParts.composition, i),
+            headline: pick(ideaParts.headline, i),
+        }));
+    };
+
+    const critique = async ({ image, context, signal }: CritiqueRequest): Promise<ThumbnailCritique> => {
+        await delay(latencyMs, signal);
+        // The mock cannot look at the image; it echoes the local findings back as advice.
+        const flagged = context.split('\n').filter((line) => /\b(warn|bad)\b/i.test(line));
+        const random = createRandom(hashString(image.data.slice(0, 2048)));
+        return {
+            score: Math.max(1, Math.min(10, 9 - flagged.length + Math.floor(random() * 2))),
+            summary: flagged.length > 0 ? `Mock critique: ${flagged.length} local check(s) need attention.` : 'Mock critique: the local checks look healthy.',
+            suggestions: flagged.length > 0
+                ? flagged.map((line) => `Address: ${line.replace(/^-\s*/, '')}`)
+                : ['Try an A/B test with a closer crop on the face.'],
+        };
+    };
+
+    return { name: 'mock', models: { generate: 'mock-generate', edit: 'mock-edit' }, generate, edit, instruct, suggestPrompt, suggestIdeas, critique };
+};
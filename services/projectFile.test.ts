@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { EditorSnapshot } from "../types";
+import { createBrandKit } from "./brandKits";
+import { createProjectFile, PROJECT_FILE_VERSION, readProjectFile } from "./projectFile";
+import { createTextLayer } from "./textLayers";
+import { addVersion, createVersionTree } from "./versionTree";
+import { createZip, readZip } from "./zip";
+
+const RED = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8DwHwAFBQIAX8jx0gAAAABJRU5ErkJggg==';
+const BLUE = 'data:image/jpeg;base64,/9j/4AAQSkZJRgABAQAAAQABAAD/2wBDAAEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQH/wAALCAABAAEBAREA/8QAFAABAAAAAAAAAAAAAAAAAAAACf/EABQQAQAAAAAAAAAAAAAAAAAAAAD/2gAIAQEAAD8AKp//2Q==';
+
+const snapshot = (): EditorSnapshot => {
+    const tree = addVersion(createVersionTree(RED, 'root'), BLUE, 'make it blue');
+    return {
+        prompt: 'A rocket at dawn',
+        negativePrompt: 'blurry',
+        styles: ['Cinematic', 'Vibrant'],
+        aspectRatio: '9:16',
+        variantCount: 2,
+        referenceImages: [{ id: 'ref', data: RED, mimeType: 'image/png', role: 'logo' }],
+        variants: [{ id: 'v1', imageUrl: RED, style: 'Cinematic', favourite: true }],
+        versionTrees: { v1: tree },
+        selectedVariantId: 'v1',
+        textLayers: [createTextLayer({ text: 'LAUNCH DAY' })],
+        fit: { mode: 'crop', focalPoint: { x: 0.2, y: 0.8 } },
+        outpainted: { source: BLUE, url: RED, aspectRatio: '9:16' },
+        brandKit: createBrandKit({ name: 'Studio', logo: { data: RED, mimeType: 'image/png' } }),
+    };
+};
+
+const entriesOf = async (blob: Blob) => readZip(new Uint8Array(await blob.arrayBuffer()));
+
+const manifestOf = async (blob: Blob) => {
+    const manifest = (await entriesOf(blob)).find((entry) => entry.name === 'project.json')!;
+    return JSON.parse(new TextDecoder().decode(manifest.data));
+};
+
+const withManifest = (manifest: unknown) => new Blob([createZip([{ name: 'project.json', data: new TextEncoder().encode(JSON.stringify(manifest)) }])]);
+
+describe('project files', () => {
+    it('restores exactly what was saved', async () => {
+        const saved = snapshot();
+        expect(await readProjectFile(createProjectFile(saved, BLUE))).toEqual(saved);
+    });
+
+    it('stores each distinct image once, next to a preview', async () => {
+        const entries = await entriesOf(createProjectFile(snapshot(), BLUE));
+        expect(entries.map((entry) => entry.name).sort()).toEqual(['images/001.png', 'images/002.jpg', 'preview.jpg', 'project.json']);
+        const manifest = await manifestOf(createProjectFile(snapshot(), BLUE));
+        expect(manifest.version).toBe(PROJECT_FILE_VERSION);
+        expect(manifest.editor.referenceImages[0].data).toEqual({ $asset: 'images/001.png' });
+    });
+
+    it('fills in defaults for hand-edited files', async () => {
+        const restored = await readProjectFile(withManifest({
+            type: 'bhagat-project',
+            version: 1,
+            editor: { prompt: 'Edited', aspectRatio: '2:1', variantCount: 99, variants: [{ imageUrl: 'not an image' }], fit: { mode: 'blur', focalPoint: { x: 4 } } },
+        }));
+        expect(restored).toMatchObject({
+            prompt: 'Edited',
+            styles: ['Cinematic'],
+            aspectRatio: '16:9',
+            variants: [],
+            selectedVariantId: null,
+            fit: { mode: 'blur', focalPoint: { x: 1, y: 0.5 } },
+            brandKit: null,
+        });
+        expect(restored.variantCount).toBeGreaterThan(1);
+    });
+
+    it('explains why a file cannot be opened', async () => {
+        await expect(readProjectFile(new Blob([createZip([])]))).rejects.toThrow('it has no project.json');
+        await expect(readProjectFile(withManifest({ type: 'something-else', version: 1 }))).rejects.toThrow('not a project saved by this app');
+        await expect(readProjectFile(withManifest({ type: 'bhagat-project', version: PROJECT_FILE_VERSION + 1, editor: {} }))).rejects.toThrow('newer version');
+        const missingImage = withManifest({ type: 'bhagat-project', version: 1, editor: { variants: [{ imageUrl: { $asset: 'images/404.png' } }] } });
+        await expect(readProjectFile(missingImage)).rejects.toThrow('missing images/404.png');
+    });
+});
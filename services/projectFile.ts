@@ -0,0 +1,208 @@
+import { AspectRatio, EditorSnapshot, FitMode, FitSettings, OutpaintedImage, ReferenceImage, ReferenceRole, TextLayer, Variant, VersionTree } from "../types";
+import { normalizeBrandKit } from "./brandKits";
+import { defaultFit } from "./canvasRenderer";
+import { MAX_VARIANTS } from "./geminiService";
+import { bytesToDataUrl } from "./imageFiles";
+import { createTextLayer } from "./textLayers";
+import { createVersionTree } from "./versionTree";
+import { createZip, readZip, ZipEntry } from "./zip";
+
+/**
+ * Bump when the layout of `editor` changes in a way old code cannot read, and
+ * add a migration from the previous version below.
+ */
+export const PROJECT_FILE_VERSION = 1;
+const PROJECT_FILE_TYPE = 'bhagat-project';
+const MANIFEST_NAME = 'project.json';
+
+type ProjectManifest = {
+    type: typeof PROJECT_FILE_TYPE;
+    version: number;
+    savedAt: string; // ISO 8601
+    preview: string | null; // archive path of the flattened thumbnail, for people without the app
+    editor: unknown; // EditorSnapshot with every image replaced by an asset reference
+};
+
+/** Stands in for a data URL inside the manifest; the bytes live in the archive at `$asset`. */
+type AssetReference = { $asset: string };
+
+/**
+ * Upgrades a manifest saved by an older version, one version at a time: the
+ * entry for version n turns an n manifest into an n + 1 manifest.
+ */
+const migrations: Record<number, (manifest: ProjectManifest) => ProjectManifest> = {};
+
+const aspectRatios: AspectRatio[] = ['16:9', '1:1', '9:16', '4:3', '3:4'];
+const referenceRoles: ReferenceRole[] = ['subject', 'style', 'logo', 'background'];
+const fitModes: FitMode[] = ['letterbox', 'crop', 'blur', 'extend', 'solid', 'gradient', 'outpaint'];
+const extensions: Record<string, string> = { 'image/jpeg': 'jpg', 'image/png': 'png', 'image/webp': 'webp', 'image/gif': 'gif', 'image/svg+xml': 'svg' };
+
+const dataUrlPattern = /^data:([^;,]+);base64,/;
+
+const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+    const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+};
+
+const mimeTypeFor = (name: string): string =>
+    Object.keys(extensions).find((mime) => name.endsWith(`.${extensions[mime]}`)) ?? 'application/octet-stream';
+
+/** Moves every image out of `value` into `assets`, storing each distinct image once. */
+const externalize = (value: unknown, assets: Map<string, string>): unknown => {
+    if (typeof value === 'string') {
+        const match = value.match(dataUrlPattern);
+        if (!match) return value;
+        let name = assets.get(value);
+        if (!name) {
+            name = `images/${String(assets.size + 1).padStart(3, '0')}.${extensions[match[1]] ?? 'bin'}`;
+            assets.set(value, name);
+        }
+        const reference: AssetReference = { $asset: name };
+        return reference;
+    }
+    if (Array.isArray(value)) return value.map((item) => externalize(item, assets));
+    if (typeof value === 'object' && value !== null) {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, externalize(item, assets)]));
+    }
+    return value;
+};
+
+const internalize = (value: unknown, files: Map<string, Uint8Array>): unknown => {
+    if (Array.isArray(value)) return value.map((item) => internalize(item, files));
+    if (typeof value === 'object' && value !== null) {
+        const asset = (value as AssetReference).$asset;
+        if (typeof asset === 'string') {
+            const bytes = files.get(asset);
+            if (!bytes) throw new Error(`The project file is missing ${asset}.`);
+            return bytesToDataUrl(bytes, mimeTypeFor(asset));
+        }
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, internalize(item, files)]));
+    }
+    return value;
+};
+
+/**
+ * Packs the editor state into a zip: `project.json` describes the state and
+ * every image (generations, versions, references, logo) is stored once under
+ * `images/`, so teammates can open the project in the app or inspect it by hand.
+ */
+export const createProjectFile = (snapshot: EditorSnapshot, previewUrl: string | null): Blob => {
+    const assets = new Map<string, string>();
+    const editor = externalize(snapshot, assets);
+    const previewMatch = previewUrl?.match(dataUrlPattern);
+    const previewName = previewMatch ? `preview.${extensions[previewMatch[1]] ?? 'bin'}` : null;
+
+    const manifest: ProjectManifest = {
+        type: PROJECT_FILE_TYPE,
+        version: PROJECT_FILE_VERSION,
+        savedAt: new Date().toISOString(),
+        preview: previewName,
+        editor,
+    };
+    const entries: ZipEntry[] = [{ name: MANIFEST_NAME, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) }];
+    if (previewName && previewUrl) entries.push({ name: previewName, data: dataUrlToBytes(previewUrl) });
+    for (const [dataUrl, name] of assets) entries.push({ name, data: dataUrlToBytes(dataUrl) });
+    return new Blob([createZip(entries)], { type: 'application/zip' });
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isImageUrl = (value: unknown): value is string => typeof value === 'string' && value.startsWith('data:image/');
+const asString = (value: unknown, fallback = ''): string => typeof value === 'string' ? value : fallback;
+const asList = (value: unknown): unknown[] => Array.isArray(value) ? value : [];
+
+const normalizeReference = (value: unknown): ReferenceImage[] => {
+    if (!isObject(value) || !isImageUrl(value.data)) return [];
+    const role = referenceRoles.includes(value.role as ReferenceRole) ? value.role as ReferenceRole : 'subject';
+    return [{ id: asString(value.id) || crypto.randomUUID(), data: value.data, mimeType: asString(value.mimeType, 'image/png'), role }];
+};
+
+const normalizeVariant = (value: unknown): Variant[] => {
+    if (!isObject(value) || !isImageUrl(value.imageUrl)) return [];
+    return [{ id: asString(value.id) || crypto.randomUUID(), imageUrl: value.imageUrl, style: asString(value.style, 'Cinematic'), favourite: value.favourite === true }];
+};
+
+/** Keeps a saved tree only if it is internally consistent; otherwise the variant starts a fresh history. */
+const normalizeTree = (value: unknown, variant: Variant): VersionTree => {
+    if (isObject(value) && isObject(value.nodes)) {
+        const tree = value as unknown as VersionTree;
+        const nodes = Object.values(tree.nodes);
+        const consistent = nodes.every((node) => isObject(node) && isImageUrl(node.imageUrl) && (node.parentId === null || !!tree.nodes[node.parentId]))
+            && !!tree.nodes[tree.rootId] && !!tree.nodes[tree.currentId];
+        if (consistent) return { ...tree, preferredChild: isObject(tree.preferredChild) ? tree.preferredChild : {} };
+    }
+    return createVersionTree(variant.imageUrl);
+};
+
+const normalizeFit = (value: unknown): FitSettings => {
+    if (!isObject(value) || !fitModes.includes(value.mode as FitMode)) return defaultFit;
+    const focal = isObject(value.focalPoint) ? value.focalPoint : {};
+    const clamp = (n: unknown) => typeof n === 'number' ? Math.min(1, Math.max(0, n)) : 0.5;
+    return { mode: value.mode as FitMode, focalPoint: { x: clamp(focal.x), y: clamp(focal.y) } };
+};
+
+const normalizeOutpaint = (value: unknown): OutpaintedImage | null =>
+    isObject(value) && isImageUrl(value.source) && isImageUrl(value.url) && aspectRatios.includes(value.aspectRatio as AspectRatio)
+        ? { source: value.source, url: value.url, aspectRatio: value.aspectRatio as AspectRatio }
+        : null;
+
+/** Fills gaps with defaults so hand-edited or partially written files still open. */
+const normalizeSnapshot = (raw: unknown): EditorSnapshot => {
+    const editor = isObject(raw) ? raw : {};
+    const variants = asList(editor.variants).flatMap(normalizeVariant);
+    const savedTrees = isObject(editor.versionTrees) ? editor.versionTrees : {};
+    const styles = asList(editor.styles).filter((style): style is string => typeof style === 'string');
+    const variantCount = Number(editor.variantCount);
+    const selectedVariantId = asString(editor.selectedVariantId);
+    const savedKit = isObject(editor.brandKit) ? editor.brandKit : null;
+    // Keep the kit's identity so opening a project matches it with the local copy.
+    const brandKit = savedKit ? {
+        ...normalizeBrandKit(savedKit),
+        id: asString(savedKit.id) || crypto.randomUUID(),
+        ...(typeof savedKit.updatedAt === 'number' ? { updatedAt: savedKit.updatedAt } : {}),
+    } : null;
+
+    return {
+        prompt: asString(editor.prompt),
+        negativePrompt: asString(editor.negativePrompt),
+        styles: styles.length > 0 ? styles : ['Cinematic'],
+        aspectRatio: aspectRatios.includes(editor.aspectRatio as AspectRatio) ? editor.aspectRatio as AspectRatio : '16:9',
+        variantCount: Number.isInteger(variantCount) ? Math.min(MAX_VARIANTS, Math.max(1, variantCount)) : 1,
+        referenceImages: asList(editor.referenceImages).flatMap(normalizeReference),
+        variants,
+        versionTrees: Object.fromEntries(variants.map((variant) => [variant.id, normalizeTree(savedTrees[variant.id], variant)])),
+        selectedVariantId: variants.some((variant) => variant.id === selectedVariantId) ? selectedVariantId : null,
+        textLayers: asList(editor.textLayers).filter(isObject).map((layer) => createTextLayer(layer as Partial<TextLayer>)),
+        fit: normalizeFit(editor.fit),
+        outpainted: normalizeOutpaint(editor.outpainted),
+        brandKit,
+    };
+};
+
+/** Opens a project file, upgrading it if it was saved by an older version of the app. */
+export const readProjectFile = async (file: Blob): Promise<EditorSnapshot> => {
+    const entries = await readZip(new Uint8Array(await file.arrayBuffer()));
+    const files = new Map(entries.map((entry) => [entry.name, entry.data]));
+    const manifestBytes = files.get(MANIFEST_NAME);
+    if (!manifestBytes) throw new Error('The file is not a project: it has no project.json.');
+
+    let manifest: ProjectManifest;
+    try {
+        manifest = JSON.parse(new TextDecoder().decode(manifestBytes));
+    } catch {
+        throw new Error('The project.json in this file is not valid JSON.');
+    }
+    if (manifest?.type !== PROJECT_FILE_TYPE || typeof manifest.version !== 'number') {
+        throw new Error('The file is not a project saved by this app.');
+    }
+    if (manifest.version > PROJECT_FILE_VERSION) {
+        throw new Error('This project was saved by a newer version of the app.');
+    }
+    while (manifest.version < PROJECT_FILE_VERSION) {
+        const migrate = migrations[manifest.version];
+        if (!migrate) throw new Error(`Projects saved as version ${manifest.version} can no longer be opened.`);
+        manifest = migrate(manifest);
+    }
+    return normalizeSnapshot(internalize(manifest.editor, files));
+};
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { builtInTemplates, fillTemplate, ideaToPrompt, templateVariables } from "./promptTemplates";
+
+describe('prompt templates', () => {
+    it('lists each placeholder once, in order of first use', () => {
+        expect(templateVariables('{Host} reacts to {topic}; {host} looks {emotion}')).toEqual(['host', 'topic', 'emotion']);
+    });
+
+    it('fills known values and leaves blank ones in place', () => {
+        expect(fillTemplate('{host} reacts to {topic} looking {emotion}', { host: 'Priya', topic: '  ', emotion: 'shocked ' }))
+            .toBe('Priya reacts to {topic} looking shocked');
+    });
+
+    it('only uses placeholders the form can fill', () => {
+        for (const template of builtInTemplates) {
+            expect(templateVariables(template.template).every((name) => /^[a-z][a-z0-9_]*$/.test(name))).toBe(true);
+        }
+    });
+
+    it('builds a prompt from an idea without its headline', () => {
+        expect(ideaToPrompt({ scene: 'A rocket launch at dawn ', emotion: 'awestruck', composition: '' }))
+            .toBe('A rocket launch at dawn, awestruck expression');
+    });
+});
@@ -0,0 +1,41 @@
+import { PromptIdea, PromptTemplate } from "../types";
+import { PROMPT_TEMPLATES, withStore } from "./database";
+
+const PLACEHOLDER = /\{([a-z][a-z0-9_]*)\}/gi;
+
+const builtIn = (id: string, name: string, template: string): PromptTemplate => ({ id: `builtin-${id}`, name, template, builtIn: true, updatedAt: 0 });
+
+export const builtInTemplates: PromptTemplate[] = [
+    builtIn('india-rising', 'India rising', "A dramatic and inspirational YouTube thumbnail showing the Indian flag waving proudly on top of the Earth, golden sunlight shining behind it, futuristic skyscrapers and technology in the background, a confident young person pointing forward with determination, empty space at the top for a headline, vibrant colors (saffron, white, green, blue), cinematic style, ultra-realistic, high contrast, motivational theme."),
+    builtIn('reaction', 'Reaction face', "Close-up of {host} with a {emotion} expression reacting to {topic}, bright saturated background, bold rim lighting, subject on the right with empty space on the left for a headline, ultra sharp, high contrast."),
+    builtIn('before-after', 'Before / after', "Split-screen comparison about {topic}: dull, grey '{before}' on the left and vibrant, glowing '{after}' on the right, {host} in the centre looking {emotion}, clean divider line, cinematic lighting, high contrast."),
+    builtIn('tutorial', 'Tutorial', "{host} holding up {topic} towards the camera with a {emotion} expression, clean studio backdrop, large arrow pointing at the object, empty space at the top for a headline, crisp product lighting."),
+    builtIn('mystery', 'Mystery', "Dark moody scene about {topic}, {host} half-lit in the foreground looking {emotion}, a glowing red circle highlighting a hidden detail in the background, fog, dramatic contrast, empty space for a headline."),
+];
+
+/** Placeholder names in the order they first appear, without duplicates. */
+export const templateVariables = (template: string): string[] =>
+    [...new Set(Array.from(template.matchAll(PLACEHOLDER), (match) => match[1].toLowerCase()))];
+
+/** Substitutes filled-in values; placeholders without a value are left in place. */
+export const fillTemplate = (template: string, values: Record<string, string>): string =>
+    template.replace(PLACEHOLDER, (placeholder, name: string) => values[name.toLowerCase()]?.trim() || placeholder);
+
+/** Turns a mixed-and-matched idea into a visual prompt. The headline is overlay text and is left out. */
+export const ideaToPrompt = ({ scene, emotion, composition }: Omit<PromptIdea, 'headline'>): string =>
+    [scene, emotion && `${emotion} expression`, composition].map((part) => part.trim()).filter(Boolean).join(', ');
+
+/** Built-in templates first, then the user's own sorted by name. */
+export const listPromptTemplates = async (): Promise<PromptTemplate[]> => {
+    const saved = await withStore(PROMPT_TEMPLATES, 'readonly', (store) => store.getAll() as IDBRequest<PromptTemplate[]>);
+    return [...builtInTemplates, ...(saved ?? []).sort((a, b) => a.name.localeCompare(b.name))];
+};
+
+export const savePromptTemplate = async (template: PromptTemplate): Promise<void> => {
+    if (template.builtIn) throw new Error('Built-in templates cannot be changed.');
+    await withStore(PROMPT_TEMPLATES, 'readwrite', (store) => store.put({ ...template, updatedAt: Date.now() }));
+};
+
+export const deletePromptTemplate = async (id: string): Promise<void> => {
+    await withStore(PROMPT_TEMPLATES, 'readwrite', (store) => store.delete(id));
+};
@@ -0,0 +1,102 @@
+import { PromptIdea, PromptSuggestion, ThumbnailCritique } from "../types";
+import { CritiqueRequest, EditRequest, GenerateRequest, ImageProvider, InstructRequest } from "./imageProvider";
+import { EDIT_MODEL, GENERATE_MODEL } from "./geminiProvider";
+import { ErrorCategory, GenerationError } from "./resilience";
+
+/** Endpoints served by `server/`, relative to the proxy's base URL. */
+export const proxyRoutes = {
+    generate: '/generate',
+    edit: '/edit',
+    instruct: '/instruct',
+    suggestPrompt: '/suggest-prompt',
+    suggestIdeas: '/suggest-ideas',
+    critique: '/critique',
+} as const;
+
+export type ProxyErrorBody = {
+    error: string;
+    category: ErrorCategory;
+    /** Set when the category's usual retry policy does not apply, e.g. the daily spending cap. */
+    retryable?: boolean;
+};
+
+/** Image endpoints also report which model produced the result. */
+export type ProxyImagesResponse = { images: string[]; model: string };
+export type ProxyImageResponse = { image: string; model: string };
+
+const CLIENT_ID_KEY = 'bhagat.clientId';
+
+/** A random id per browser, so the server can rate-limit users behind a shared address separately. */
+const getClientId = (): string => {
+    try {
+        let id = localStorage.getItem(CLIENT_ID_KEY);
+        if (!id) {
+            id = crypto.randomUUID();
+            localStorage.setItem(CLIENT_ID_KEY, id);
+        }
+        return id;
+    } catch {
+        return 'anonymous';
+    }
+};
+
+/**
+ * Forwards every request to the backend proxy, which holds the API key and
+ * runs the real provider. The server's error category is kept, so retries and
+ * error messages behave exactly as with a provider running in the page.
+ */
+export const createProxyProvider = (baseUrl = '/api'): ImageProvider => {
+    // Replaced with the server's actual models after the first image response.
+    const models = { generate: GENERATE_MODEL, edit: EDIT_MODEL };
+
+    const post = async <T>(route: string, body: unknown, signal?: AbortSignal): Promise<T> => {
+        const response = await fetch(`${baseUrl}${route}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'X-Client-Id': getClientId() },
+            body: JSON.stringify(body),
+            signal,
+        });
+        if (!response.ok) {
+            const failure = await response.json().catch(() => null) as ProxyErrorBody | null;
+            if (failure?.category) {
+                const retryAfterSeconds = Number(response.headers.get('Retry-After'));
+                throw new GenerationError(failure.category, failure.error, {
+                    retryable: failure.retryable,
+                    retryAfterMs: retryAfterSeconds > 0 ? retryAfterSeconds * 1000 : undefined,
+                });
+            }
+            // No JSON body: most likely the proxy is not running behind the dev server.
+            throw Object.assign(new Error(`The image proxy responded with ${response.status} ${response.statusText}.`), { status: response.status });
+        }
+        return response.json() as Promise<T>;
+    };
+
+    const generate = async ({ signal, ...request }: GenerateRequest): Promise<string[]> => {
+        const { images, model } = await post<ProxyImagesResponse>(proxyRoutes.generate, request, signal);
+        models.generate = model;
+        return images;
+    };
+
+    const edit = async ({ signal, ...request }: EditRequest): Promise<string> => {
+        const { image, model } = await post<ProxyImageResponse>(proxyRoutes.edit, request, signal);
+        models.edit = model;
+        return image;
+    };
+
+    const instruct = async ({ signal, ...request }: InstructRequest): Promise<string> => {
+        const { image, model } = await post<ProxyImageResponse>(proxyRoutes.instruct, request, signal);
+        models.edit = model;
+        return image;
+    };
+
+    const suggestPrompt = (currentPrompt: string, signal?: AbortSignal): Promise<PromptSuggestion> =>
+        post(proxyRoutes.suggestPrompt, { currentPrompt }, signal);
+
+    const suggestIdeas = (currentPrompt: string, count: number, signal?: AbortSignal): Promise<PromptIdea[]> =>
+        post(proxyRoutes.suggestIdeas, { currentPrompt, count }, signal);
+
+    const critique = ({ signal, ...request }: CritiqueRequest): Promise<ThumbnailCritique> =>
+        post(proxyRoutes.critique, request, signal);
+
+    return { name: 'proxy', models, generate, edit, instruct, suggestPrompt, suggestIdeas, critique };
+};
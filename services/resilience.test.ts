@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { classifyError, GenerationError, withRetries } from "./resilience";
+
+describe('withRetries', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('retries transient failures with backoff', async () => {
+        const task = vi.fn()
+            .mockRejectedValueOnce(new GenerationError('server', 'down'))
+            .mockResolvedValueOnce('done');
+        const result = withRetries(task, { baseDelayMs: 100 });
+        await vi.advanceTimersByTimeAsync(150);
+        await expect(result).resolves.toBe('done');
+        expect(task).toHaveBeenCalledTimes(2);
+    });
+
+    it('reports retries through onRetry or a one-line warning, never the stack', async () => {
+        const failing = () => vi.fn().mockRejectedValueOnce(new GenerationError('network', 'offline')).mockResolvedValueOnce('done');
+        const onRetry = vi.fn();
+        const reported = withRetries(failing(), { baseDelayMs: 10, onRetry });
+        await vi.advanceTimersByTimeAsync(20);
+        await reported;
+        expect(onRetry).toHaveBeenCalledTimes(1);
+        expect(console.warn).not.toHaveBeenCalled();
+
+        const logged = withRetries(failing(), { baseDelayMs: 10 });
+        await vi.advanceTimersByTimeAsync(20);
+        await logged;
+        expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('(network: offline)'));
+        expect(vi.mocked(console.warn).mock.calls[0]).toHaveLength(1);
+    });
+
+    it('does not retry failures marked as final, even in a retryable category', async () => {
+        const task = vi.fn().mockRejectedValue(new GenerationError('quota', 'Daily cap reached.', { retryable: false }));
+        await expect(withRetries(task)).rejects.toThrow('Daily cap reached.');
+        expect(task).toHaveBeenCalledTimes(1);
+    });
+
+    it('waits as long as the service asks before retrying', async () => {
+        const onRetry = vi.fn();
+        const task = vi.fn()
+            .mockRejectedValueOnce(new GenerationError('quota', 'Too many requests.', { retryAfterMs: 30_000 }))
+            .mockResolvedValueOnce('done');
+        const result = withRetries(task, { baseDelayMs: 100, onRetry });
+        await vi.advanceTimersByTimeAsync(29_000);
+        expect(task).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1_000);
+        await expect(result).resolves.toBe('done');
+        expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ delayMs: 30_000, category: 'quota' }));
+    });
+
+    it('gives up with a timeout when an attempt hangs', async () => {
+        const result = withRetries(() => new Promise(() => {}), { timeoutMs: 1_000, maxRetries: 0 });
+        const settled = expect(result).rejects.toSatisfy((error) => classifyError(error) === 'timeout');
+        await vi.advanceTimersByTimeAsync(1_000);
+        await settled;
+    });
+
+    it('stops at once when cancelled', async () => {
+        const controller = new AbortController();
+        const result = withRetries(() => new Promise(() => {}), { signal: controller.signal });
+        controller.abort();
+        await expect(result).rejects.toSatisfy((error) => classifyError(error) === 'cancelled');
+    });
+});
@@ -0,0 +1,198 @@
+/**
+ * Timeouts, cancellation and retries for calls to the model providers, plus
+ * a small taxonomy of failures so the UI can explain what went wrong instead
+ * of showing the provider's raw message.
+ */
+
+export type ErrorCategory = 'safety' | 'quota' | 'auth' | 'network' | 'server' | 'timeout' | 'cancelled' | 'empty' | 'unknown';
+
+export type GenerationErrorOptions = {
+    cause?: unknown;
+    /** Overrides the category's default, e.g. a spent daily budget is `quota` but retrying cannot help. */
+    retryable?: boolean;
+    /** How long the service asked us to wait before trying again. */
+    retryAfterMs?: number;
+};
+
+export class GenerationError extends Error {
+    readonly category: ErrorCategory;
+    readonly retryable?: boolean;
+    readonly retryAfterMs?: number;
+
+    constructor(category: ErrorCategory, message: string, options: GenerationErrorOptions = {}) {
+        super(message, { cause: options.cause });
+        this.name = 'GenerationError';
+        this.category = category;
+        this.retryable = options.retryable;
+        this.retryAfterMs = options.retryAfterMs;
+    }
+}
+
+export type RetryInfo = {
+    attempt: number; // the attempt that just failed, starting at 1
+    maxAttempts: number;
+    delayMs: number;
+    category: ErrorCategory;
+};
+
+export type RequestOptions = {
+    /** Aborts the request and any pending retry. */
+    signal?: AbortSignal;
+    /** Per attempt, not in total. */
+    timeoutMs?: number;
+    /** Extra attempts after the first for rate limits, server and network errors. */
+    maxRetries?: number;
+    /** First backoff delay; doubles on every retry, with jitter. */
+    baseDelayMs?: number;
+    /** Reports each retry; without it a one-line warning is logged instead. */
+    onRetry?: (info: RetryInfo) => void;
+};
+
+/** REQUEST_TIMEOUT_SECONDS from the environment; Vite bakes it into the web app at build time. */
+const configuredTimeoutMs = (): number | null => {
+    const seconds = Number(process.env.REQUEST_TIMEOUT_SECONDS);
+    return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : null;
+};
+
+export const defaultRequestOptions = {
+    timeoutMs: configuredTimeoutMs() ?? 90_000,
+    maxRetries: 3,
+    baseDelayMs: 1_000,
+};
+
+const retryableCategories: ErrorCategory[] = ['quota', 'server', 'network'];
+
+export const isRetryable = (category: ErrorCategory): boolean => retryableCategories.includes(category);
+
+const shouldRetry = (error: unknown): boolean =>
+    error instanceof GenerationError && error.retryable !== undefined ? error.retryable : isRetryable(classifyError(error));
+
+const statusOf = (error: unknown): number | null => {
+    const status = (error as { status?: unknown; code?: unknown } | null)?.status ?? (error as { code?: unknown } | null)?.code;
+    return typeof status === 'number' ? status : null;
+};
+
+/** Best-effort classification of a raw provider or network error. */
+export const classifyError = (error: unknown): ErrorCategory => {
+    if (error instanceof GenerationError) return error.category;
+    if (error instanceof DOMException && error.name === 'AbortError') return 'cancelled';
+
+    const status = statusOf(error);
+    if (status === 429) return 'quota';
+    if (status === 401 || status === 403) return 'auth';
+    if (status !== null && status >= 500) return 'server';
+
+    const message = (error instanceof Error ? error.message : String(error)).toLowerCase();
+    if (/blocked|safety|prohibited|refused/.test(message)) return 'safety';
+    if (/resource_exhausted|quota|rate limit|too many requests/.test(message)) return 'quota';
+    if (/api key|api_key|permission_denied|unauthenticated|unauthori[sz]ed/.test(message)) return 'auth';
+    if (/no image was generated|empty response|no images were generated/.test(message)) return 'empty';
+    if (/failed to fetch|networkerror|network request failed|load failed|econnreset|enotfound|etimedout/.test(message)) return 'network';
+    if (/internal|unavailable|overloaded|deadline/.test(message)) return 'server';
+    return 'unknown';
+};
+
+const categoryMessages: Record<Exclude<ErrorCategory, 'unknown'>, string> = {
+    safety: "The request was blocked by the model's safety filters. Please revise your prompt or reference images.",
+    quota: "The API rate limit or quota was exceeded. Wait a minute before trying again, or check your plan's limits.",
+    auth: "The API key was rejected. Check that API_KEY is set and has access to these models.",
+    network: "Could not reach the image service. Check your internet connection and try again.",
+    server: "The image service is having problems right now. Please try again in a moment.",
+    timeout: "The request took too long and was stopped.",
+    cancelled: "The request was cancelled.",
+    empty: "The model returned no image. Try rephrasing the prompt.",
+};
+
+/** Wraps any failure in a `GenerationError` with a message fit for the UI. */
+export const toGenerationError = (error: unknown, action: string): GenerationError => {
+    const category = classifyError(error);
+    const detail = error instanceof Error ? error.message : "An unknown error occurred.";
+    const message = category === 'unknown' ? `${action}: ${detail}` : `${action}: ${categoryMessages[category]}`;
+    const { retryable, retryAfterMs } = error instanceof GenerationError ? error : {} as GenerationErrorOptions;
+    return new GenerationError(category, message, { cause: error, retryable, retryAfterMs });
+};
+
+const abortError = (): DOMException => new DOMException('The request was cancelled.', 'AbortError');
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(abortError());
+            return;
+        }
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(abortError());
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+/**
+ * Runs one attempt with its own timeout. The attempt's signal fires on either
+ * the caller's cancel or the timeout; the race also settles immediately in case
+ * the task ignores its signal.
+ */
+const attempt = async <T>(task: (signal: AbortSignal) => Promise<T>, timeoutMs: number, outer?: AbortSignal): Promise<T> => {
+    const controller = new AbortController();
+    let timedOut = false;
+    let rejectEarly: (reason: unknown) => void = () => {};
+    const early = new Promise<never>((_, reject) => { rejectEarly = reject; });
+
+    const onAbort = () => {
+        controller.abort();
+        rejectEarly(new GenerationError('cancelled', categoryMessages.cancelled));
+    };
+    const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+        rejectEarly(new GenerationError('timeout', categoryMessages.timeout));
+    }, timeoutMs);
+    outer?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+        return await Promise.race([task(controller.signal), early]);
+    } catch (error) {
+        if (outer?.aborted) throw new GenerationError('cancelled', categoryMessages.cancelled, { cause: error });
+        if (timedOut) throw new GenerationError('timeout', categoryMessages.timeout, { cause: error });
+        throw error;
+    } finally {
+        clearTimeout(timer);
+        outer?.removeEventListener('abort', onAbort);
+    }
+};
+
+/** Runs `task` with a timeout per attempt and exponential backoff on transient failures. */
+export const withRetries = async <T>(task: (signal: AbortSignal) => Promise<T>, options: RequestOptions = {}): Promise<T> => {
+    const { signal, onRetry } = options;
+    const timeoutMs = options.timeoutMs ?? defaultRequestOptions.timeoutMs;
+    const maxRetries = options.maxRetries ?? defaultRequestOptions.maxRetries;
+    const baseDelayMs = options.baseDelayMs ?? defaultRequestOptions.baseDelayMs;
+    const maxAttempts = maxRetries + 1;
+
+    for (let attemptNumber = 1; ; attemptNumber++) {
+        if (signal?.aborted) throw new GenerationError('cancelled', categoryMessages.cancelled);
+        try {
+            return await attempt(task, timeoutMs, signal);
+        } catch (error) {
+            const category = classifyError(error);
+            if (!shouldRetry(error) || attemptNumber >= maxAttempts) throw error;
+            const backoffMs = Math.round(baseDelayMs * 2 ** (attemptNumber - 1) * (0.8 + Math.random() * 0.4));
+            // A rate limiter's Retry-After is when the next attempt can succeed; sooner would just be refused again.
+            const delayMs = Math.max(backoffMs, error instanceof GenerationError ? error.retryAfterMs ?? 0 : 0);
+            if (onRetry) {
+                onRetry({ attempt: attemptNumber, maxAttempts, delayMs, category });
+            } else {
+                console.warn(`Attempt ${attemptNumber} of ${maxAttempts} failed (${category}: ${error instanceof Error ? error.message : String(error)}); retrying in ${delayMs}ms.`);
+            }
+            try {
+                await sleep(delayMs, signal);
+            } catch {
+                throw new GenerationError('cancelled', categoryMessages.cancelled, { cause: error });
+            }
+        }
+    }
+};
@@ -0,0 +1,109 @@
+import { TextLayer } from "../types";
+
+export const layerFonts = ['Anton', 'Bebas Neue', 'Bangers', 'Montserrat', 'Inter', 'Playfair Display'];
+
+const LINE_HEIGHT = 1.1;
+
+/**
+ * Regions expressed as fractions of the canvas. `titleSafe` is the inset
+ * outside which text risks being cropped; `timestampBadge` is where YouTube
+ * overlays the video duration on every thumbnail.
+ */
+export const safeAreas = {
+    titleSafe: { x: 0.05, y: 0.05, width: 0.9, height: 0.9 },
+    timestampBadge: { x: 0.84, y: 0.86, width: 0.14, height: 0.11 },
+};
+
+export const createTextLayer = (overrides: Partial<TextLayer> = {}): TextLayer => ({
+    id: crypto.randomUUID(),
+    text: 'YOUR HEADLINE',
+    fontFamily: 'Anton',
+    fontWeight: 400,
+    fontSize: 0.14,
+    x: 0.5,
+    y: 0.2,
+    rotation: 0,
+    fill: { type: 'solid', color: '#ffffff' },
+    stroke: { color: '#000000', width: 0.08 },
+    shadow: { color: '#000000', blur: 0.15, offsetX: 0.03, offsetY: 0.05 },
+    visible: true,
+    ...overrides,
+});
+
+export const fontSpec = (layer: TextLayer, px: number): string =>
+    `${layer.fontWeight} ${Math.round(px)}px "${layer.fontFamily}"`;
+
+/** Makes sure web fonts used by the layers are ready before painting to a canvas. */
+export const loadLayerFonts = async (layers: TextLayer[]): Promise<void> => {
+    if (typeof document === 'undefined' || !document.fonts) return;
+    await Promise.all(layers.map((layer) => document.fonts.load(fontSpec(layer, 32), layer.text).catch(() => [])));
+};
+
+const createFillStyle = (ctx: CanvasRenderingContext2D, layer: TextLayer, halfWidth: number, halfHeight: number): string | CanvasGradient => {
+    if (layer.fill.type === 'solid') return layer.fill.color;
+    const angle = (layer.fill.angle * Math.PI) / 180;
+    // Project the box onto the gradient direction so the colours span the whole text block.
+    const reach = Math.abs(Math.cos(angle)) * halfWidth + Math.abs(Math.sin(angle)) * halfHeight;
+    const dx = Math.cos(angle) * reach;
+    const dy = Math.sin(angle) * reach;
+    const gradient = ctx.createLinearGradient(-dx, -dy, dx, dy);
+    gradient.addColorStop(0, layer.fill.from);
+    gradient.addColorStop(1, layer.fill.to);
+    return gradient;
+};
+
+export const drawTextLayer = (ctx: CanvasRenderingContext2D, layer: TextLayer, width: number, height: number): void => {
+    if (!layer.visible || !layer.text.trim()) return;
+    const lines = layer.text.split('\n');
+
+    const px = layer.fontSize * height;
+    const lineStep = px * LINE_HEIGHT;
+
+    ctx.save();
+    ctx.translate(layer.x * width, layer.y * height);
+    ctx.rotate((layer.rotation * Math.PI) / 180);
+    ctx.font = fontSpec(layer, px);
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.lineJoin = 'round';
+
+    const blockWidth = Math.max(...lines.map((line) => ctx.measureText(line).width));
+    const blockHeight = lineStep * lines.length;
+    const lineY = (i: number) => (i - (lines.length - 1) / 2) * lineStep;
+
+    ctx.shadowColor = layer.shadow.color;
+    ctx.shadowBlur = layer.shadow.blur * px;
+    ctx.shadowOffsetX = layer.shadow.offsetX * px;
+    ctx.shadowOffsetY = layer.shadow.offsetY * px;
+
+    if (layer.stroke.width > 0) {
+        ctx.strokeStyle = layer.stroke.color;
+        ctx.lineWidth = layer.stroke.width * px;
+        lines.forEach((line, i) => ctx.strokeText(line, 0, lineY(i)));
+        // The stroke already cast the shadow; casting it again from the fill would darken the letters.
+        ctx.shadowColor = 'transparent';
+    }
+
+    ctx.fillStyle = createFillStyle(ctx, layer, blockWidth / 2, blockHeight / 2);
+    lines.forEach((line, i) => ctx.fillText(line, 0, lineY(i)));
+    ctx.restore();
+};
+
+/** The axis-aligned box, in canvas pixels, that a layer's text covers once rotated. */
+export const textLayerBounds = (ctx: CanvasRenderingContext2D, layer: TextLayer, width: number, height: number): { x: number; y: number; width: number; height: number } => {
+    const lines = layer.text.split('\n');
+    const px = layer.fontSize * height;
+    ctx.save();
+    ctx.font = fontSpec(layer, px);
+    const halfW = Math.max(...lines.map((line) => ctx.measureText(line).width)) / 2;
+    ctx.restore();
+    const halfH = (px * LINE_HEIGHT * lines.length) / 2;
+    const angle = (layer.rotation * Math.PI) / 180;
+    const extentX = Math.abs(Math.cos(angle)) * halfW + Math.abs(Math.sin(angle)) * halfH;
+    const extentY = Math.abs(Math.sin(angle)) * halfW + Math.abs(Math.cos(angle)) * halfH;
+    return { x: layer.x * width - extentX, y: layer.y * height - extentY, width: extentX * 2, height: extentY * 2 };
+};
+
+export const drawTextLayers = (ctx: CanvasRenderingContext2D, layers: TextLayer[], width: number, height: number): void => {
+    layers.forEach((layer) => drawTextLayer(ctx, layer, width, height));
+};
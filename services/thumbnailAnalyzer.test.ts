@@ -0,0 +1,114 @@
+import { createCanvas, SKRSContext2D } from "@napi-rs/canvas";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { nodeCanvasPlatform } from "../cli/nodeCanvas";
+import { setCanvasPlatform } from "./canvasPlatform";
+import { RenderOptions } from "./canvasRenderer";
+import { createTextLayer, safeAreas } from "./textLayers";
+import { AnalysisMetric, analyzeThumbnail, describeAnalysis, previewSizes } from "./thumbnailAnalyzer";
+
+const WIDTH = 640;
+const HEIGHT = 360;
+
+/** A 16:9 PNG data URL painted on a black background by `draw`. */
+const image = (draw: (ctx: SKRSContext2D) => void): string => {
+    const canvas = createCanvas(WIDTH, HEIGHT);
+    const ctx = canvas.getContext('2d');
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, WIDTH, HEIGHT);
+    draw(ctx);
+    return canvas.toDataURL('image/png');
+};
+
+const flat = image((ctx) => {
+    ctx.fillStyle = '#808080';
+    ctx.fillRect(0, 0, WIDTH, HEIGHT);
+});
+const halves = image((ctx) => {
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(WIDTH / 2, 0, WIDTH / 2, HEIGHT);
+});
+const noise = image((ctx) => {
+    ctx.fillStyle = '#ffffff';
+    for (let y = 0; y < HEIGHT; y += 4) {
+        for (let x = (y / 4) % 2 * 4; x < WIDTH; x += 8) ctx.fillRect(x, y, 4, 4);
+    }
+});
+
+/** A bright square on black, with its top-left corner at the given fractions of the frame. */
+const squareAt = (x: number, y: number) => image((ctx) => {
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(x * WIDTH, y * HEIGHT, 0.08 * WIDTH, 0.08 * HEIGHT);
+});
+
+const noText: RenderOptions = { layers: [] };
+
+const analyze = (source: string, options: RenderOptions = noText) => analyzeThumbnail(source, '16:9', options, source);
+
+const metricOf = (metrics: AnalysisMetric[], id: AnalysisMetric['id']): AnalysisMetric => {
+    const found = metrics.find((m) => m.id === id);
+    if (!found) throw new Error(`No ${id} metric`);
+    return found;
+};
+
+describe('analyzeThumbnail', () => {
+    beforeAll(() => setCanvasPlatform(nodeCanvasPlatform));
+    afterAll(() => setCanvasPlatform(null));
+
+    it('scores a high-contrast image above a flat one', async () => {
+        const high = metricOf((await analyze(halves)).metrics, 'contrast');
+        const low = metricOf((await analyze(flat)).metrics, 'contrast');
+        expect(high.score).toBe(100);
+        expect(high.status).toBe('good');
+        expect(low.score).toBe(0);
+        expect(low.status).toBe('bad');
+    });
+
+    it('flags fine detail everywhere as clutter without a focal point', async () => {
+        const busy = (await analyze(noise)).metrics;
+        const simple = (await analyze(halves)).metrics;
+        expect(metricOf(busy, 'clutter').score).toBeLessThan(40);
+        expect(metricOf(simple, 'clutter').score).toBe(100);
+        expect(metricOf(busy, 'focus').score).toBeLessThan(metricOf((await analyze(squareAt(0.4, 0.4))).metrics, 'focus').score ?? 0);
+    });
+
+    it('finds detail inside the timestamp badge but not outside it', async () => {
+        const { timestampBadge } = safeAreas;
+        const inside = metricOf((await analyze(squareAt(timestampBadge.x + 0.02, timestampBadge.y + 0.01))).metrics, 'timestamp');
+        const outside = metricOf((await analyze(squareAt(0.1, 0.1))).metrics, 'timestamp');
+        expect(inside).toMatchObject({ value: 'busy corner', score: 55 });
+        expect(outside).toMatchObject({ value: 'clear', score: 100 });
+    });
+
+    it('reports text running under the timestamp badge', async () => {
+        const layer = createTextLayer({ text: 'LATE', x: 0.9, y: 0.92, fontSize: 0.1 });
+        const { metrics } = await analyze(flat, { layers: [layer] });
+        expect(metricOf(metrics, 'timestamp')).toMatchObject({ value: 'text covered', score: 0 });
+    });
+
+    it('rates outlined text as legible and unoutlined text on a similar background as not', async () => {
+        const outlined = createTextLayer({ text: 'WOW', fill: { type: 'solid', color: '#ffffff' } });
+        const bare = { ...outlined, fill: { type: 'solid' as const, color: '#888888' }, stroke: { color: '#000000', width: 0 } };
+        const good = metricOf((await analyze(flat, { layers: [outlined] })).metrics, 'text');
+        const bad = metricOf((await analyze(flat, { layers: [bare] })).metrics, 'text');
+        expect(good.status).toBe('good');
+        expect(bad.status).toBe('bad');
+        expect(bad.detail).toContain('contrast');
+    });
+
+    it('leaves unmeasurable metrics out of the overall score', async () => {
+        const { metrics, overall, previews } = await analyze(halves);
+        // No FaceDetector and no text layers in Node.
+        expect(metricOf(metrics, 'face').score).toBeNull();
+        expect(metricOf(metrics, 'text').score).toBeNull();
+        const scored = metrics.flatMap((m) => m.score === null ? [] : [m.score]);
+        expect(overall).toBe(Math.round(scored.reduce((sum, score) => sum + score, 0) / scored.length));
+        expect(previews.map((preview) => preview.size.id)).toEqual(previewSizes.map((size) => size.id));
+    });
+
+    it('describes every metric on its own line', async () => {
+        const analysis = await analyze(halves);
+        const lines = describeAnalysis(analysis).split('\n');
+        expect(lines).toHaveLength(analysis.metrics.length);
+        expect(lines[0]).toMatch(/^- Contrast: .+ \(good\)\. /);
+    });
+});
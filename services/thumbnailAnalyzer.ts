@@ -0,0 +1,285 @@
+import { AspectRatio, TextLayer } from "../types";
+import { composeCanvas, loadImage, ratioOf, RenderOptions } from "./canvasRenderer";
+import { getCanvasPlatform } from "./canvasPlatform";
+import { safeAreas, textLayerBounds } from "./textLayers";
+
+export type PreviewSize = { id: string; label: string; width: number; height: number };
+
+/** Where YouTube shows thumbnails, in CSS pixels, largest first. */
+export const previewSizes: PreviewSize[] = [
+    { id: 'search', label: 'Search results', width: 360, height: 202 },
+    { id: 'sidebar', label: 'Up next sidebar', width: 168, height: 94 },
+    { id: 'mobile', label: 'Mobile list', width: 160, height: 90 },
+];
+
+export type MetricStatus = 'good' | 'warn' | 'bad' | 'unknown';
+
+export type AnalysisMetric = {
+    id: 'contrast' | 'clutter' | 'focus' | 'face' | 'text' | 'timestamp';
+    label: string;
+    score: number | null; // 0..100, null when it could not be measured
+    status: MetricStatus;
+    value: string;
+    detail: string;
+};
+
+export type ThumbnailAnalysis = {
+    metrics: AnalysisMetric[];
+    overall: number | null;
+    previews: { size: PreviewSize; url: string }[];
+};
+
+type Rect = { x: number; y: number; width: number; height: number };
+
+// Metrics are measured on a small copy: it is faster, and small is how viewers see it.
+const ANALYSIS_WIDTH = 320;
+const EDGE_THRESHOLD = 0.2;
+const FOCUS_GRID = { columns: 6, rows: 4 };
+const SMALLEST_PREVIEW_HEIGHT = Math.min(...previewSizes.map((size) => size.height));
+
+type FaceDetectorLike = { detect(image: CanvasImageSource): Promise<{ boundingBox: DOMRectReadOnly }[]> };
+type FaceDetectorConstructor = new (options?: { fastMode?: boolean; maxDetectedFaces?: number }) => FaceDetectorLike;
+
+const clampScore = (value: number): number => Math.round(Math.min(100, Math.max(0, value)));
+
+const statusFor = (score: number): MetricStatus => score >= 70 ? 'good' : score >= 40 ? 'warn' : 'bad';
+
+const metric = (id: AnalysisMetric['id'], label: string, score: number, value: string, detail: string): AnalysisMetric =>
+    ({ id, label, score: clampScore(score), status: statusFor(clampScore(score)), value, detail });
+
+const intersects = (a: Rect, b: Rect): boolean =>
+    a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+const toLinear = (channel: number): number => {
+    const c = channel / 255;
+    return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+};
+
+/** WCAG relative luminance of an sRGB colour. */
+const relativeLuminance = (r: number, g: number, b: number): number =>
+    0.2126 * toLinear(r) + 0.7152 * toLinear(g) + 0.0722 * toLinear(b);
+
+const hexLuminance = (hex: string): number => {
+    const value = parseInt(hex.replace('#', '').padEnd(6, '0').slice(0, 6), 16);
+    return relativeLuminance((value >> 16) & 255, (value >> 8) & 255, value & 255);
+};
+
+const contrastRatio = (a: number, b: number): number => (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
+
+const get2dContext = (canvas: HTMLCanvasElement, settings?: CanvasRenderingContext2DSettings): CanvasRenderingContext2D => {
+    const ctx = canvas.getContext('2d', settings);
+    if (!ctx) throw new Error('Could not get canvas context');
+    return ctx;
+};
+
+const getPixels = (canvas: HTMLCanvasElement): ImageData =>
+    get2dContext(canvas, { willReadFrequently: true }).getImageData(0, 0, canvas.width, canvas.height);
+
+/** Perceptual lightness per pixel, 0..1. */
+const lightnessOf = ({ data, width, height }: ImageData): Float32Array => {
+    const lightness = new Float32Array(width * height);
+    for (let i = 0; i < lightness.length; i++) {
+        lightness[i] = (0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]) / 255;
+    }
+    return lightness;
+};
+
+/** Sobel gradient magnitude; the one-pixel border is left at zero. */
+const edgeMagnitude = (lightness: Float32Array, width: number, height: number): Float32Array => {
+    const edges = new Float32Array(width * height);
+    for (let y = 1; y < height - 1; y++) {
+        for (let x = 1; x < width - 1; x++) {
+            const at = (dx: number, dy: number) => lightness[(y + dy) * width + x + dx];
+            const gx = at(1, -1) + 2 * at(1, 0) + at(1, 1) - at(-1, -1) - 2 * at(-1, 0) - at(-1, 1);
+            const gy = at(-1, 1) + 2 * at(0, 1) + at(1, 1) - at(-1, -1) - 2 * at(0, -1) - at(1, -1);
+            edges[y * width + x] = Math.hypot(gx, gy) / 4;
+        }
+    }
+    return edges;
+};
+
+const sumIn = (values: Float32Array, width: number, rect: Rect): { sum: number; count: number } => {
+    let sum = 0;
+    let count = 0;
+    for (let y = Math.max(0, Math.floor(rect.y)); y < Math.min(values.length / width, Math.ceil(rect.y + rect.height)); y++) {
+        for (let x = Math.max(0, Math.floor(rect.x)); x < Math.min(width, Math.ceil(rect.x + rect.width)); x++) {
+            sum += values[y * width + x];
+            count++;
+        }
+    }
+    return { sum, count };
+};
+
+const measureContrast = (lightness: Float32Array): AnalysisMetric => {
+    const mean = lightness.reduce((total, value) => total + value, 0) / lightness.length;
+    const deviation = Math.sqrt(lightness.reduce((total, value) => total + (value - mean) ** 2, 0) / lightness.length);
+    return metric('contrast', 'Contrast', (deviation / 0.22) * 100, `${Math.round(deviation * 100)}% RMS`,
+        deviation < 0.12 ? 'Flat tones blur together when small. Push the lights and darks further apart.' : 'Tones are well separated.');
+};
+
+const measureClutter = (edges: Float32Array): AnalysisMetric => {
+    const density = edges.reduce((count, value) => count + (value > EDGE_THRESHOLD ? 1 : 0), 0) / edges.length;
+    return metric('clutter', 'Clutter', 100 - ((density - 0.08) / 0.17) * 100, `${Math.round(density * 100)}% edges`,
+        density > 0.18 ? 'Lots of fine detail competes for attention. Simplify the background or blur it.' : 'The image reads as a few clear shapes.');
+};
+
+/** How much of the visual energy sits in a few places, rather than spread evenly. */
+const measureFocus = (edges: Float32Array, width: number, height: number): AnalysisMetric => {
+    const cellW = width / FOCUS_GRID.columns;
+    const cellH = height / FOCUS_GRID.rows;
+    const energy: number[] = [];
+    for (let row = 0; row < FOCUS_GRID.rows; row++) {
+        for (let column = 0; column < FOCUS_GRID.columns; column++) {
+            energy.push(sumIn(edges, width, { x: column * cellW, y: row * cellH, width: cellW, height: cellH }).sum);
+        }
+    }
+    const total = energy.reduce((sum, value) => sum + value, 0) || 1;
+    const share = energy.sort((a, b) => b - a).slice(0, 3).reduce((sum, value) => sum + value, 0) / total;
+    const uniform = 3 / energy.length;
+    return metric('focus', 'Focal point', ((share - uniform) / (0.45 - uniform)) * 100, `${Math.round(share * 100)}% in top 3 cells`,
+        share < 0.25 ? 'Detail is spread evenly, so the eye has nowhere to land. Make one subject dominate.' : 'There is a clear place for the eye to land.');
+};
+
+const detectFaces = async (canvas: HTMLCanvasElement): Promise<Rect[] | null> => {
+    const FaceDetector = (globalThis as { FaceDetector?: FaceDetectorConstructor }).FaceDetector;
+    if (!FaceDetector) return null;
+    try {
+        const faces = await new FaceDetector({ fastMode: true, maxDetectedFaces: 5 }).detect(canvas);
+        return faces.map(({ boundingBox: { x, y, width, height } }) => ({ x, y, width, height }));
+    } catch {
+        return null;
+    }
+};
+
+const measureFaces = (faces: Rect[] | null, height: number): AnalysisMetric => {
+    if (faces === null) {
+        return { id: 'face', label: 'Face size', score: null, status: 'unknown', value: 'n/a', detail: 'Face detection is not available in this browser.' };
+    }
+    if (faces.length === 0) {
+        return { id: 'face', label: 'Face size', score: null, status: 'warn', value: 'none', detail: 'No face found. A large, expressive face is one of the strongest click signals.' };
+    }
+    const largest = Math.max(...faces.map((face) => face.height)) / height;
+    return metric('face', 'Face size', (largest / 0.3) * 100, `${Math.round(largest * 100)}% of height`,
+        largest < 0.15 ? 'The face is too small to read an expression at sidebar size. Crop in closer.' : 'The face is big enough to read at small sizes.');
+};
+
+const fillColours = (layer: TextLayer): string[] => layer.fill.type === 'solid' ? [layer.fill.color] : [layer.fill.from, layer.fill.to];
+
+/** Background luminance behind the text box, measured on the render without text. */
+const backgroundLuminance = ({ data, width }: ImageData, rect: Rect): number => {
+    let total = 0;
+    let count = 0;
+    for (let y = Math.max(0, Math.floor(rect.y)); y < Math.min(data.length / 4 / width, Math.ceil(rect.y + rect.height)); y++) {
+        for (let x = Math.max(0, Math.floor(rect.x)); x < Math.min(width, Math.ceil(rect.x + rect.width)); x++) {
+            const i = (y * width + x) * 4;
+            total += relativeLuminance(data[i], data[i + 1], data[i + 2]);
+            count++;
+        }
+    }
+    return count > 0 ? total / count : 0;
+};
+
+const measureText = (layers: TextLayer[], boxes: Rect[], background: ImageData): AnalysisMetric => {
+    if (layers.length === 0) {
+        return { id: 'text', label: 'Text legibility', score: null, status: 'unknown', value: 'no text', detail: 'Add a headline layer to check its legibility.' };
+    }
+    const results = layers.map((layer, i) => {
+        const bg = backgroundLuminance(background, boxes[i]);
+        const fills = fillColours(layer).map(hexLuminance);
+        let ratio = Math.min(...fills.map((fill) => contrastRatio(fill, bg)));
+        // A thick outline separates the letters from whatever is behind them.
+        if (layer.stroke.width >= 0.05) {
+            ratio = Math.max(ratio, Math.min(...fills.map((fill) => contrastRatio(fill, hexLuminance(layer.stroke.color)))));
+        }
+        const px = layer.fontSize * SMALLEST_PREVIEW_HEIGHT;
+        const words = layer.text.trim().split(/\s+/).length;
+        const score = Math.min(((px - 5) / 5) * 100, ((ratio - 1.5) / 3) * 100, words > 6 ? 60 : 100);
+        return { layer, ratio, px, words, score };
+    });
+    const worst = results.reduce((a, b) => b.score < a.score ? b : a);
+    const problems: string[] = [];
+    if (worst.px < 8) problems.push(`only ${worst.px.toFixed(1)}px tall at mobile size`);
+    if (worst.ratio < 3) problems.push(`contrast ${worst.ratio.toFixed(1)}:1 against the background`);
+    if (worst.words > 6) problems.push(`${worst.words} words; aim for five or fewer`);
+    return metric('text', 'Text legibility', worst.score, `${worst.ratio.toFixed(1)}:1, ${worst.px.toFixed(0)}px`,
+        problems.length > 0 ? `"${worst.layer.text.split('\n')[0]}" is ${problems.join(', ')}.` : 'Every headline stays readable at mobile size.');
+};
+
+const measureTimestamp = (layers: TextLayer[], boxes: Rect[], faces: Rect[] | null, edges: Float32Array, width: number, height: number): AnalysisMetric => {
+    const { timestampBadge } = safeAreas;
+    const badge = { x: timestampBadge.x * width, y: timestampBadge.y * height, width: timestampBadge.width * width, height: timestampBadge.height * height };
+    const covered = layers.filter((_, i) => intersects(boxes[i], badge));
+    if (covered.length > 0) {
+        return metric('timestamp', 'Timestamp badge', 0, 'text covered', `"${covered[0].text.split('\n')[0]}" runs under the duration badge in the bottom-right corner. Move it up or left.`);
+    }
+    if (faces?.some((face) => intersects(face, badge))) {
+        return metric('timestamp', 'Timestamp badge', 20, 'face covered', 'A face sits under the duration badge in the bottom-right corner.');
+    }
+    const inBadge = sumIn(edges, width, badge);
+    const busyness = (inBadge.sum / Math.max(1, inBadge.count)) / (edges.reduce((sum, value) => sum + value, 0) / edges.length || 1);
+    return busyness > 1.5
+        ? metric('timestamp', 'Timestamp badge', 55, 'busy corner', 'There is detail under the duration badge that viewers will not see.')
+        : metric('timestamp', 'Timestamp badge', 100, 'clear', 'Nothing important sits under the duration badge.');
+};
+
+/** Draws the finished thumbnail as it appears in each YouTube slot, letterboxed in black like YouTube does. */
+const renderPreviews = async (imageUrl: string): Promise<ThumbnailAnalysis['previews']> => {
+    const image = await loadImage(imageUrl);
+    return previewSizes.map((size) => {
+        const canvas = getCanvasPlatform().createCanvas(size.width, size.height);
+        const ctx = get2dContext(canvas);
+        ctx.fillStyle = '#000000';
+        ctx.fillRect(0, 0, size.width, size.height);
+        ctx.imageSmoothingQuality = 'high';
+        const scale = Math.min(size.width / image.naturalWidth, size.height / image.naturalHeight);
+        const w = image.naturalWidth * scale;
+        const h = image.naturalHeight * scale;
+        ctx.drawImage(image, (size.width - w) / 2, (size.height - h) / 2, w, h);
+        return { size, url: canvas.toDataURL('image/png') };
+    });
+};
+
+/**
+ * Scores a thumbnail with local heuristics. `source`, `aspectRatio` and
+ * `options` describe the render so text can be checked against the image
+ * behind it; `finalImageUrl` is the finished render used for the previews.
+ */
+export const analyzeThumbnail = async (
+    source: string,
+    aspectRatio: AspectRatio,
+    options: RenderOptions,
+    finalImageUrl: string
+): Promise<ThumbnailAnalysis> => {
+    const size = { width: ANALYSIS_WIDTH, height: Math.round(ANALYSIS_WIDTH / ratioOf(aspectRatio)) };
+    const layers = (options.layers ?? []).filter((layer) => layer.visible && layer.text.trim());
+
+    const [finished, background] = await Promise.all([
+        composeCanvas(source, size, options),
+        composeCanvas(source, size, { ...options, layers: [] }),
+    ]);
+    const { width, height } = finished;
+    const lightness = lightnessOf(getPixels(finished));
+    const edges = edgeMagnitude(lightness, width, height);
+    const boxCtx = get2dContext(finished);
+    const boxes = layers.map((layer) => textLayerBounds(boxCtx, layer, width, height));
+    const faces = await detectFaces(background);
+
+    const metrics = [
+        measureContrast(lightness),
+        measureClutter(edges),
+        measureFocus(edges, width, height),
+        measureFaces(faces, height),
+        measureText(layers, boxes, getPixels(background)),
+        measureTimestamp(layers, boxes, faces, edges, width, height),
+    ];
+    const scored = metrics.filter((m) => m.score !== null).map((m) => m.score as number);
+    return {
+        metrics,
+        overall: scored.length > 0 ? Math.round(scored.reduce((sum, score) => sum + score, 0) / scored.length) : null,
+        previews: await renderPreviews(finalImageUrl),
+    };
+};
+
+/** The local findings as plain text, for the text model's critique. */
+export const describeAnalysis = (analysis: ThumbnailAnalysis): string =>
+    analysis.metrics.map((m) => `- ${m.label}: ${m.value} (${m.status}). ${m.detail}`).join('\n');
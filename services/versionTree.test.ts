@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { addVersion, canRedo, canUndo, checkout, childrenOf, createVersionTree, currentVersion, pathTo, redo, undo } from "./versionTree";
+
+describe('version tree', () => {
+    it('starts at the original with nothing to undo or redo', () => {
+        const tree = createVersionTree('original', 'root');
+        expect(currentVersion(tree)).toMatchObject({ id: 'root', imageUrl: 'original', parentId: null });
+        expect(canUndo(tree)).toBe(false);
+        expect(canRedo(tree)).toBe(false);
+    });
+
+    it('undoes and redoes along a chain of refinements', () => {
+        let tree = createVersionTree('original', 'root');
+        tree = addVersion(tree, 'v1', 'brighter');
+        tree = addVersion(tree, 'v2', 'add a logo');
+        expect(pathTo(tree, tree.currentId).map((node) => node.imageUrl)).toEqual(['original', 'v1', 'v2']);
+
+        tree = undo(undo(tree));
+        expect(currentVersion(tree).id).toBe('root');
+        tree = redo(redo(tree));
+        expect(currentVersion(tree).imageUrl).toBe('v2');
+        expect(canRedo(tree)).toBe(false);
+    });
+
+    it('branches when refining after an undo and keeps the old branch reachable', () => {
+        let tree = createVersionTree('original', 'root');
+        tree = addVersion(tree, 'v1', 'brighter');
+        const firstBranch = tree.currentId;
+        tree = addVersion(undo(tree), 'v1b', 'darker');
+
+        expect(childrenOf(tree, 'root').map((node) => node.imageUrl)).toEqual(['v1', 'v1b']);
+        // Redo follows the branch the user was last on.
+        expect(currentVersion(redo(undo(tree))).imageUrl).toBe('v1b');
+        expect(currentVersion(redo(undo(checkout(tree, firstBranch)))).imageUrl).toBe('v1');
+    });
+
+    it('ignores checkouts of unknown versions', () => {
+        const tree = createVersionTree('original', 'root');
+        expect(checkout(tree, 'missing')).toBe(tree);
+    });
+});
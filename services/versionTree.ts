@@ -0,0 +1,64 @@
+import { VersionNode, VersionTree } from "../types";
+
+export const createVersionTree = (imageUrl: string, id: string = crypto.randomUUID()): VersionTree => ({
+    nodes: { [id]: { id, parentId: null, imageUrl, instruction: null, createdAt: Date.now() } },
+    rootId: id,
+    currentId: id,
+    preferredChild: {},
+});
+
+export const currentVersion = (tree: VersionTree): VersionNode => tree.nodes[tree.currentId];
+
+export const childrenOf = (tree: VersionTree, id: string): VersionNode[] =>
+    Object.values(tree.nodes)
+        .filter((node) => node.parentId === id)
+        .sort((a, b) => a.createdAt - b.createdAt);
+
+/** Root-to-node chain of versions. */
+export const pathTo = (tree: VersionTree, id: string): VersionNode[] => {
+    const path: VersionNode[] = [];
+    for (let node: VersionNode | undefined = tree.nodes[id]; node; node = node.parentId ? tree.nodes[node.parentId] : undefined) {
+        path.unshift(node);
+    }
+    return path;
+};
+
+/** Moves to any version, remembering the route so redo can find its way back down. */
+export const checkout = (tree: VersionTree, id: string): VersionTree => {
+    if (!tree.nodes[id]) return tree;
+    const preferredChild = { ...tree.preferredChild };
+    pathTo(tree, id).forEach((node) => {
+        if (node.parentId) preferredChild[node.parentId] = node.id;
+    });
+    return { ...tree, currentId: id, preferredChild };
+};
+
+/**
+ * Adds a refinement of `parentId` (the current version by default) and moves
+ * to it. Refining after an undo starts a new branch; the old one stays reachable.
+ */
+export const addVersion = (tree: VersionTree, imageUrl: string, instruction: string, parentId: string = tree.currentId): VersionTree => {
+    const id = crypto.randomUUID();
+    const node: VersionNode = { id, parentId, imageUrl, instruction, createdAt: Date.now() };
+    return checkout({ ...tree, nodes: { ...tree.nodes, [id]: node } }, id);
+};
+
+export const canUndo = (tree: VersionTree): boolean => currentVersion(tree).parentId !== null;
+
+export const undo = (tree: VersionTree): VersionTree => {
+    const { parentId } = currentVersion(tree);
+    return parentId ? { ...tree, currentId: parentId } : tree;
+};
+
+const redoTarget = (tree: VersionTree): string | undefined => {
+    const preferred = tree.preferredChild[tree.currentId];
+    if (preferred && tree.nodes[preferred]) return preferred;
+    return childrenOf(tree, tree.currentId).pop()?.id;
+};
+
+export const canRedo = (tree: VersionTree): boolean => redoTarget(tree) !== undefined;
+
+export const redo = (tree: VersionTree): VersionTree => {
+    const target = redoTarget(tree);
+    return target ? { ...tree, currentId: target } : tree;
+};
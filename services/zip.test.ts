@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { crc32, createZip, readZip } from "./zip";
+
+const text = (value: string) => new TextEncoder().encode(value);
+
+// Written by Python's zipfile with ZIP_DEFLATED: a "notes/" folder and notes/readme.txt ("hello " × 20).
+const DEFLATED_ARCHIVE = 'UEsDBBQAAAAIALo5U10AAAAAAgAAAAAAAAAGAAAAbm90ZXMvAwBQSwMEFAAAAAgAujlTXS/6+EgLAAAAeAAAABAAAABub3Rlcy9yZWFkbWUudHh0y0jNyclXyKA7CQBQSwECFAMUAAAACAC6OVNdAAAAAAIAAAAAAAAABgAAAAAAAAAAABAA/UEAAAAAbm90ZXMvUEsBAhQDFAAAAAgAujlTXS/6+EgLAAAAeAAAABAAAAAAAAAAAAAAAIABJgAAAG5vdGVzL3JlYWRtZS50eHRQSwUGAAAAAAIAAgByAAAAXwAAAAAA';
+
+describe('crc32', () => {
+    it('matches the standard check value', () => {
+        expect(crc32(text('123456789'))).toBe(0xcbf43926);
+    });
+});
+
+describe('zip archives', () => {
+    it('reads back what it writes', async () => {
+        const entries = [
+            { name: 'project.json', data: text('{"a":1}') },
+            { name: 'images/001.png', data: new Uint8Array([137, 80, 78, 71, 0, 255]) },
+            { name: 'empty.txt', data: new Uint8Array() },
+        ];
+        expect(await readZip(createZip(entries))).toEqual(entries);
+    });
+
+    it('reads deflated archives made by other tools and skips folders', async () => {
+        const entries = await readZip(new Uint8Array(Buffer.from(DEFLATED_ARCHIVE, 'base64')));
+        expect(entries.map((entry) => entry.name)).toEqual(['notes/readme.txt']);
+        expect(new TextDecoder().decode(entries[0].data)).toBe('hello '.repeat(20));
+    });
+
+    it('rejects files that are not archives', async () => {
+        await expect(readZip(text('definitely not a zip file, just some text'))).rejects.toThrow('not a zip archive');
+    });
+
+    it('rejects entries whose contents do not match their checksum', async () => {
+        const archive = createZip([{ name: 'a.txt', data: text('original') }]);
+        // Local header (30 bytes) and the 5-byte name come before the data.
+        archive[35] ^= 0xff;
+        await expect(readZip(archive)).rejects.toThrow('"a.txt" is corrupted.');
+    });
+});
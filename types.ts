@@ -0,0 +1,180 @@
+export type AspectRatio = '16:9' | '1:1' | '9:16' | '4:3' | '3:4';
+
+export type UploadedImage = {
+    data: string; // base64 data URL
+    mimeType: string;
+};
+
+export type InlineImage = {
+    data: string; // base64 string without prefix
+    mimeType: string;
+};
+
+/** What a reference image contributes to the composition. */
+export type ReferenceRole = 'subject' | 'style' | 'logo' | 'background';
+
+export type ReferenceImage = UploadedImage & {
+    id: string;
+    role: ReferenceRole;
+};
+
+export type InlineReference = InlineImage & {
+    role: ReferenceRole;
+};
+
+export type PromptSuggestion = {
+    visual_prompt: string;
+};
+
+/** One structured alternative from the suggestion mode; fields can be mixed across ideas. */
+export type PromptIdea = {
+    scene: string;
+    emotion: string;
+    composition: string;
+    headline: string; // short overlay text, not part of the visual prompt
+};
+
+/** The text model's review of a finished thumbnail. */
+export type ThumbnailCritique = {
+    score: number; // 1..10
+    summary: string;
+    suggestions: string[];
+};
+
+/** A reusable prompt whose `{placeholders}` are filled in before generating. */
+export type PromptTemplate = {
+    id: string;
+    name: string;
+    template: string;
+    builtIn: boolean; // shipped with the app; cannot be edited or deleted
+    updatedAt: number; // epoch milliseconds
+};
+
+export type Variant = {
+    id: string;
+    imageUrl: string; // raw model output, before canvas post-processing
+    style: string;
+    favourite: boolean;
+};
+
+export type TextFill =
+    | { type: 'solid'; color: string }
+    | { type: 'gradient'; from: string; to: string; angle: number }; // angle in degrees
+
+/**
+ * A headline layer drawn over the generated image. Positions and sizes are
+ * relative to the output canvas so layers survive aspect-ratio changes and
+ * export resizing.
+ */
+export type TextLayer = {
+    id: string;
+    text: string;
+    fontFamily: string;
+    fontWeight: number;
+    fontSize: number; // fraction of canvas height
+    x: number; // 0..1, centre of the text block
+    y: number; // 0..1, centre of the text block
+    rotation: number; // degrees
+    fill: TextFill;
+    stroke: { color: string; width: number }; // width as a fraction of font size
+    shadow: { color: string; blur: number; offsetX: number; offsetY: number }; // fractions of font size
+    visible: boolean;
+};
+
+/** Everything needed to reproduce a generation. */
+export type GenerationRecipe = {
+    prompt: string;
+    negativePrompt: string;
+    style: string;
+    aspectRatio: AspectRatio;
+    referenceImages: ReferenceImage[]; // in the order they were sent to the model
+    model: string;
+};
+
+export type GenerationRecord = {
+    id: string;
+    projectId: string | null;
+    recipe: GenerationRecipe;
+    imageUrl: string; // raw model output
+    createdAt: number; // epoch milliseconds
+};
+
+export type Project = {
+    id: string;
+    name: string;
+    createdAt: number; // epoch milliseconds
+};
+
+/** How the image fills a canvas whose aspect ratio differs from its own. */
+export type FitMode = 'letterbox' | 'crop' | 'blur' | 'extend' | 'solid' | 'gradient' | 'outpaint';
+
+export type FitSettings = {
+    mode: FitMode;
+    focalPoint: { x: number; y: number }; // 0..1 within the source image, used by 'crop'
+};
+
+/** One step in a thumbnail's refinement history. */
+export type VersionNode = {
+    id: string;
+    parentId: string | null;
+    imageUrl: string;
+    instruction: string | null; // null for the original generation
+    createdAt: number; // epoch milliseconds
+};
+
+export type VersionTree = {
+    nodes: Record<string, VersionNode>;
+    rootId: string;
+    currentId: string;
+    /** The child each node was last left through, so redo retraces the branch you came from. */
+    preferredChild: Record<string, string>;
+};
+
+export type WatermarkPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+/** A channel's fixed brand rules, applied to prompts, references and exports. */
+export type BrandKit = {
+    id: string;
+    name: string;
+    palette: string[]; // hex colours
+    tone: string;
+    headlineFont: string;
+    logo: UploadedImage | null;
+    logoPosition: WatermarkPosition;
+    logoScale: number; // fraction of canvas width
+    logoOpacity: number; // 0..1
+    hostPhoto: UploadedImage | null;
+    bannedElements: string[];
+    updatedAt: number; // epoch milliseconds
+};
+
+export type Watermark = {
+    image: string; // data URL
+    position: WatermarkPosition;
+    scale: number; // fraction of canvas width
+    opacity: number; // 0..1
+};
+
+/** The edit model's extension of an image to a new aspect ratio. */
+export type OutpaintedImage = {
+    source: string; // the raw image it was made from
+    aspectRatio: AspectRatio;
+    url: string;
+};
+
+/** The editor's working state, as saved to and restored from a project file. */
+export type EditorSnapshot = {
+    prompt: string;
+    negativePrompt: string;
+    styles: string[];
+    aspectRatio: AspectRatio;
+    variantCount: number;
+    referenceImages: ReferenceImage[];
+    variants: Variant[];
+    versionTrees: Record<string, VersionTree>; // keyed by variant id
+    selectedVariantId: string | null;
+    textLayers: TextLayer[];
+    fit: FitSettings;
+    outpainted: OutpaintedImage | null;
+    brandKit: BrandKit | null; // embedded so the watermark and fonts survive on another machine
+};
@@ -3,10 +3,19 @@ import { defineConfig, loadEnv } from 'vite';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // The API key stays on the server (`npm run server`); the page talks to it
+    // through the proxy provider. BROWSER_PROVIDER=mock runs the page fully
+    // offline without the server.
+    const browserProvider = env.BROWSER_PROVIDER === 'mock' ? 'mock' : 'proxy';
     return {
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.IMAGE_PROVIDER': JSON.stringify(browserProvider),
+        'process.env.REQUEST_TIMEOUT_SECONDS': JSON.stringify(env.REQUEST_TIMEOUT_SECONDS ?? '')
+      },
+      server: {
+        proxy: {
+          '/api': `http://localhost:${env.PORT || 8787}`
+        }
       },
       resolve: {
         alias: {